@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, utimes } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import {
+  fileBackend,
+  memoryBackend,
+  mkdirBackend,
+  type LockBackend,
+} from "./backend";
+import { acquire, LockAcquisitionError, LockLostError } from "./lock";
+import { inspectLock } from "./inspect";
+import { mutexRun } from "./mutex-run";
+import { runId } from "./coalesce";
+import { createHolderInfo, readHolderInfo, writeHolderInfo } from "./holder";
+
+const dir = "/tmp/mutex-run-test-backend";
+const lockFile = `${dir}/build.lock`;
+
+beforeEach(async () => {
+  await mkdir(dir, { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe.each([
+  ["file", fileBackend],
+  ["mkdir", mkdirBackend],
+  ["memory", memoryBackend],
+])("%s backend", (_, createBackend) => {
+  let backend: LockBackend;
+
+  beforeEach(() => {
+    backend = createBackend();
+  });
+
+  it("excludes other holders and names the current one", async () => {
+    const lock = await acquire(lockFile, { backend, command: ["first"] });
+    try {
+      const error = await acquire(lockFile, { backend, wait: false }).catch(
+        (err) => err,
+      );
+      expect(error).toBeInstanceOf(LockAcquisitionError);
+      expect(error.holder).toMatchObject({ command: ["first"] });
+
+      const status = await inspectLock(lockFile, { backend });
+      expect(status.held).toBe(true);
+      expect(status.holder?.command).toEqual(["first"]);
+    } finally {
+      await lock.release();
+    }
+    expect((await inspectLock(lockFile, { backend })).held).toBe(false);
+  });
+
+  it("waits for the lock and gives up after the timeout", async () => {
+    const lock = await acquire(lockFile, { backend });
+    await expect(
+      acquire(lockFile, { backend, timeout: 300, retryInterval: 50 }),
+    ).rejects.toThrow(LockAcquisitionError);
+
+    const waiter = acquire(lockFile, { backend, retryInterval: 50 });
+    setTimeout(() => void lock.release(), 100);
+    await (await waiter).release();
+  });
+
+  it("hands out semaphore slots", async () => {
+    const locks = await Promise.all([
+      acquire(lockFile, { backend, concurrency: 2 }),
+      acquire(lockFile, { backend, concurrency: 2 }),
+    ]);
+    expect(locks.map((lock) => lock.slot).sort()).toEqual([0, 1]);
+    expect((await inspectLock(lockFile, { backend })).slots).toBe(2);
+    await expect(
+      acquire(lockFile, { backend, concurrency: 2, wait: false }),
+    ).rejects.toThrow(LockAcquisitionError);
+    await Promise.all(locks.map((lock) => lock.release()));
+  });
+
+  it("lets nested runs reuse a lock an ancestor holds", async () => {
+    const ancestor = await acquire(lockFile, { backend });
+    try {
+      const result = await mutexRun(["echo", "nested"], {
+        lockFile,
+        backend,
+        wait: false,
+        env: {
+          MUTEX_RUN_LOCKS: lockFile,
+          MUTEX_RUN_HOLDER: runId(ancestor.holder),
+        },
+      });
+      expect(result.reentrant).toBe(true);
+    } finally {
+      await ancestor.release();
+    }
+  });
+});
+
+describe("lock backends", () => {
+  it("exclude lock files taken the default way", async () => {
+    const lock = await acquire(lockFile);
+    try {
+      for (const backend of [fileBackend(), mkdirBackend()]) {
+        await expect(
+          acquire(lockFile, { backend, wait: false }),
+        ).rejects.toThrow(LockAcquisitionError);
+      }
+    } finally {
+      await lock.release();
+    }
+  });
+
+  it("take over abandoned mkdir locks", async () => {
+    await mkdir(`${lockFile}.lock`);
+    const old = new Date(Date.now() - 60000);
+    await utimes(`${lockFile}.lock`, old, old);
+
+    const lock = await acquire(lockFile, {
+      backend: mkdirBackend(),
+      staleTimeout: 10000,
+      wait: false,
+    });
+    await lock.release();
+    expect(existsSync(`${lockFile}.lock`)).toBe(false);
+  });
+
+  it("keep held locks refreshed", async () => {
+    const backend = memoryBackend();
+    let refreshes = 0;
+    const counting: LockBackend = {
+      ...backend,
+      refresh: async (lock) => {
+        refreshes++;
+        await backend.refresh(lock);
+      },
+    };
+
+    const lock = await acquire(lockFile, {
+      backend: counting,
+      staleTimeout: 2000,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    await lock.release();
+    expect(refreshes).toBe(1);
+  });
+
+  it("report a lock lost while it is held", async () => {
+    const backend = memoryBackend();
+    const losing: LockBackend = {
+      ...backend,
+      refresh: async () => {
+        throw new Error("lease expired");
+      },
+    };
+
+    const lock = await acquire(lockFile, {
+      backend: losing,
+      staleTimeout: 2000,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    expect(lock.signal.aborted).toBe(true);
+    expect(lock.signal.reason).toBeInstanceOf(LockLostError);
+    expect(lock.signal.reason.cause.message).toBe("lease expired");
+    await lock.release();
+
+    // A command running under the lock is stopped
+    const started = Date.now();
+    await expect(
+      mutexRun(["sleep", "5"], {
+        lockFile,
+        backend: losing,
+        staleTimeout: 2000,
+        wait: false,
+      }),
+    ).rejects.toThrow(LockLostError);
+    expect(Date.now() - started).toBeLessThan(3000);
+  });
+
+  it("report file locks that were taken away", async () => {
+    const lock = await acquire(lockFile, { staleTimeout: 2000 });
+    await rm(`${lockFile}.lock`, { recursive: true });
+    await new Promise((resolve) => setTimeout(resolve, 2500));
+    expect(lock.signal.reason).toBeInstanceOf(LockLostError);
+    await lock.release();
+  });
+
+  it("report mkdir locks that were taken over", async () => {
+    const lock = await acquire(lockFile, {
+      backend: mkdirBackend(),
+      staleTimeout: 2000,
+    });
+    await rm(`${lockFile}.lock`, { recursive: true });
+    await mkdir(`${lockFile}.lock`);
+    await writeHolderInfo(lockFile, await createHolderInfo(["other"]));
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    expect(lock.signal.reason).toBeInstanceOf(LockLostError);
+
+    // The new holder keeps its lock
+    await lock.release();
+    expect(existsSync(`${lockFile}.lock`)).toBe(true);
+    expect((await readHolderInfo(lockFile))?.command).toEqual(["other"]);
+  });
+
+  it("reject shared mode and fair queueing, except for files", async () => {
+    const backend = memoryBackend();
+    await expect(
+      acquire(lockFile, { backend, mode: "shared" }),
+    ).rejects.toThrow(/not supported/);
+    await expect(acquire(lockFile, { backend, fair: true })).rejects.toThrow(
+      /not supported/,
+    );
+
+    // The file backend is what locks are taken with by default
+    const lock = await acquire(lockFile, {
+      backend: fileBackend(),
+      mode: "shared",
+      fair: true,
+    });
+    expect((await inspectLock(lockFile)).readers).toBe(1);
+    await lock.release();
+  });
+});
@@ -0,0 +1,235 @@
+import { existsSync } from "node:fs";
+import { mkdir, rm, stat, unlink, utimes } from "node:fs/promises";
+import { dirname } from "node:path";
+import { claimSlot } from "./semaphore";
+import { existingSlots } from "./inspect";
+import { breakIfAbandoned, isAbandoned, type StaleOptions } from "./stale";
+import {
+  readHolderInfo,
+  removeHolderInfo,
+  writeHolderInfo,
+  type HolderInfo,
+} from "./holder";
+import { runId } from "./coalesce";
+import { ensureFile } from "./utils";
+
+// A LockBackend is the lock itself: acquire passes it one lock target at a
+// time (the lock path, or the path of a semaphore slot) and takes care of
+// waiting, retrying, timeouts and keeping the lock refreshed. By default
+// locks are taken with fileBackend; another backend swaps that out, e.g. for
+// a coordination service. Shared locks and fair queueing keep their state in
+// files next to the lock (see rwlock.ts and queue.ts), so they need
+// fileBackend.
+
+/**
+ * A lock target taken through a LockBackend
+ */
+export interface BackendLock {
+  /**
+   * Absolute path of the lock target (the lock path, or `<lockPath>.<n>` for
+   * semaphore slot n)
+   */
+  path: string;
+
+  /**
+   * Holder record stored with the lock
+   */
+  holder: HolderInfo;
+}
+
+/**
+ * Mechanism that locks are taken with (see LockOptions.backend)
+ */
+export interface LockBackend {
+  /**
+   * Try once to take a lock target, storing the holder record with it
+   *
+   * @param stale - When a lock counts as abandoned; abandoned locks may be
+   *   taken over
+   * @returns The lock, or undefined while somebody else holds it
+   */
+  acquire(
+    path: string,
+    holder: HolderInfo,
+    stale: StaleOptions,
+  ): Promise<BackendLock | undefined>;
+
+  /**
+   * Give a lock back. Called once per lock.
+   */
+  release(lock: BackendLock): Promise<void>;
+
+  /**
+   * Show that the holder is still alive, so the lock does not count as
+   * abandoned. Called every staleTimeout / 2 while the lock is held.
+   *
+   * @throws Error if the lock was lost
+   */
+  refresh(lock: BackendLock): Promise<void>;
+
+  /**
+   * Holder records of a lock and its semaphore slots, as far as they are
+   * held and not abandoned
+   */
+  inspect(path: string, stale: StaleOptions): Promise<HolderInfo[]>;
+}
+
+let files: LockBackend | undefined;
+
+/**
+ * Lock files handled by proper-lockfile: the backend locks are taken with
+ * when none is given. The only backend that supports shared mode and fair
+ * queueing.
+ */
+export function fileBackend(): LockBackend {
+  return (files ??= createFileBackend());
+}
+
+function createFileBackend(): LockBackend {
+  const claims = new WeakMap<
+    BackendLock,
+    { release: () => Promise<void>; lost: () => Error | undefined }
+  >();
+  return {
+    async acquire(path, holder, stale) {
+      await ensureFile(path);
+      let lost: Error | undefined;
+      const claimed = await claimSlot([path], {
+        ...stale,
+        onCompromised: (err) => (lost = err),
+      });
+      if (!claimed) return undefined;
+      await writeHolderInfo(path, holder).catch(() => {});
+
+      const lock = { path, holder };
+      claims.set(lock, { release: claimed.release, lost: () => lost });
+      return lock;
+    },
+    async release(lock) {
+      const claim = claims.get(lock);
+      // A lost lock, and the record next to it, may be somebody else's now
+      if (claim?.lost()) return;
+      await removeHolderInfo(lock.path);
+      await claim?.release();
+      await unlink(lock.path).catch(() => {});
+    },
+    async refresh(lock) {
+      // proper-lockfile refreshes its locks itself, and tells us if it failed
+      const lost = claims.get(lock)?.lost();
+      if (lost) throw lost;
+    },
+    inspect: lockDirHolders,
+  };
+}
+
+/**
+ * Locks that are directories created with an atomic mkdir, without
+ * proper-lockfile or a file to lock. Locks are `<path>.lock` directories
+ * just like proper-lockfile's, so they exclude the default lock files too,
+ * and are kept fresh by touching the directory. A lock counts as lost once
+ * its directory was replaced or its holder record names somebody else.
+ */
+export function mkdirBackend(): LockBackend {
+  // Inode of the directory each lock created
+  const dirs = new WeakMap<BackendLock, number>();
+
+  const tryMkdir = async (dir: string) => {
+    try {
+      await mkdir(dir);
+      return true;
+    } catch (err: any) {
+      if (err?.code !== "EEXIST") throw err;
+      return false;
+    }
+  };
+
+  /** Why the lock is no longer ours, if it is not */
+  const lostReason = async (lock: BackendLock) => {
+    const dir = await stat(`${lock.path}.lock`).catch(() => undefined);
+    if (!dir) return new Error(`Lock at ${lock.path} was removed`);
+    // A recreated directory may get the old inode back, but not the record
+    const record = await readHolderInfo(lock.path);
+    if (
+      dir.ino !== dirs.get(lock) ||
+      (record && runId(record) !== runId(lock.holder))
+    ) {
+      return new Error(`Lock at ${lock.path} was taken over`);
+    }
+    return undefined;
+  };
+
+  return {
+    async acquire(path, holder, stale) {
+      await mkdir(dirname(path), { recursive: true });
+      if (!(await tryMkdir(`${path}.lock`))) {
+        // Take an abandoned lock over, then race for it once more
+        if (!(await breakIfAbandoned(path, stale))) return undefined;
+        if (!(await tryMkdir(`${path}.lock`))) return undefined;
+      }
+      const lock = { path, holder };
+      dirs.set(lock, (await stat(`${path}.lock`)).ino);
+      await writeHolderInfo(path, holder).catch(() => {});
+      return lock;
+    },
+    async release(lock) {
+      // A lost lock, and the record next to it, may be somebody else's now
+      if (await lostReason(lock)) return;
+      await removeHolderInfo(lock.path);
+      await rm(`${lock.path}.lock`, { recursive: true, force: true });
+    },
+    async refresh(lock) {
+      const lost = await lostReason(lock);
+      if (lost) throw lost;
+      const now = new Date();
+      await utimes(`${lock.path}.lock`, now, now);
+    },
+    inspect: lockDirHolders,
+  };
+}
+
+/**
+ * Locks kept in memory, only shared by users of the same backend in the
+ * same process. Meant for tests.
+ */
+export function memoryBackend(): LockBackend {
+  const held = new Map<string, BackendLock>();
+  return {
+    async acquire(path, holder) {
+      if (held.has(path)) return undefined;
+      const lock = { path, holder };
+      held.set(path, lock);
+      return lock;
+    },
+    async release(lock) {
+      if (held.get(lock.path) === lock) held.delete(lock.path);
+    },
+    async refresh(lock) {
+      if (held.get(lock.path) !== lock) {
+        throw new Error(`Lock at ${lock.path} was lost`);
+      }
+    },
+    async inspect(path) {
+      return [...held.values()]
+        .filter(
+          (lock) =>
+            lock.path === path ||
+            (lock.path.startsWith(path) &&
+              /^\.\d+$/.test(lock.path.slice(path.length))),
+        )
+        .map((lock) => lock.holder);
+    },
+  };
+}
+
+/** Holders of `<path>.lock` directories (the lock and its slots). */
+async function lockDirHolders(path: string, stale: StaleOptions) {
+  const holders: HolderInfo[] = [];
+  for (const slot of await existingSlots(path)) {
+    if (!existsSync(`${slot}.lock`) || (await isAbandoned(slot, stale))) {
+      continue;
+    }
+    const holder = await readHolderInfo(slot);
+    if (holder) holders.push(holder);
+  }
+  return holders;
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { execa } from "execa";
-import { unlink } from "node:fs/promises";
+import { readFile, rm, unlink, writeFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { resolve } from "node:path";
 
@@ -72,6 +72,26 @@ describe("mutex-run CLI", () => {
     expect(existsSync(TEST_LOCK)).toBe(false);
   }, 10000);
 
+  it("exits like a shell when the command dies of a signal", async () => {
+    const result = await execa(
+      "tsx",
+      [
+        CLI_PATH,
+        "--lock",
+        TEST_LOCK,
+        "--no-color",
+        "--",
+        "node",
+        "-e",
+        "process.kill(process.pid, 'SIGTERM')",
+      ],
+      { reject: false },
+    );
+    // Either dies of SIGTERM itself or exits 128 + 15, depending on tsx
+    expect(result.signal === "SIGTERM" || result.exitCode === 143).toBe(true);
+    expect(existsSync(TEST_LOCK)).toBe(false);
+  }, 10000);
+
   it("prevents concurrent execution", async () => {
     const lockFile = "/tmp/mutex-run-test-concurrent.lock";
 
@@ -200,6 +220,40 @@ describe("mutex-run CLI", () => {
     }
   }, 15000);
 
+  it("writes JSON events instead of messages with --json", async () => {
+    const result = await execa("tsx", [
+      CLI_PATH,
+      "--lock",
+      TEST_LOCK,
+      "--json",
+      "--",
+      "echo",
+      "hi",
+    ]);
+    expect(result.stdout).toBe("hi");
+
+    const events = result.stderr.split("\n").map((line) => JSON.parse(line));
+    expect(events.map((event) => event.type)).toEqual([
+      "wait-start",
+      "acquired",
+      "child-start",
+      "child-exit",
+      "released",
+    ]);
+    expect(events[3]).toMatchObject({ exitCode: 0 });
+  }, 10000);
+
+  it("rejects an invalid duration", async () => {
+    const result = await execa(
+      "tsx",
+      [CLI_PATH, "--lock", TEST_LOCK, "--timeout", "5x", "--", "echo", "hi"],
+      { all: true, reject: false },
+    );
+    expect(result.exitCode).toBe(1);
+    expect(result.all).toContain("Invalid --timeout value: 5x");
+    expect(result.all).not.toContain("hi\n");
+  }, 10000);
+
   it("shows error when no command provided", async () => {
     try {
       await execa("tsx", [CLI_PATH, "--lock", TEST_LOCK, "--no-color", "--"], {
@@ -214,6 +268,249 @@ describe("mutex-run CLI", () => {
     }
   }, 10000);
 
+  it("applies a profile from the config file", async () => {
+    const configPath = "/tmp/mutex-run-test.config.json";
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        profiles: { build: { lockFile: TEST_LOCK, env: { PROFILE: "build" } } },
+      }),
+    );
+    try {
+      const result = await execa(
+        "tsx",
+        [
+          CLI_PATH,
+          "--config",
+          configPath,
+          "--profile",
+          "build",
+          "--no-color",
+          "--verbose",
+          "--",
+          "node",
+          "-e",
+          "console.log(process.env.PROFILE)",
+        ],
+        { all: true },
+      );
+      expect(result.stdout).toContain("build");
+      expect(result.all).toContain(`acquiring lock at ${TEST_LOCK}`);
+
+      const unknown = await execa(
+        "tsx",
+        [CLI_PATH, "--config", configPath, "--profile", "nope", "--", "true"],
+        { reject: false },
+      );
+      expect(unknown.exitCode).toBe(1);
+      expect(unknown.stderr).toContain('Unknown profile "nope"');
+    } finally {
+      await unlink(configPath).catch(() => {});
+    }
+  }, 15000);
+
+  it("reports lock status with exit codes", async () => {
+    const free = await execa("tsx", [CLI_PATH, "status", "--lock", TEST_LOCK], {
+      reject: false,
+    });
+    expect(free.exitCode).toBe(0);
+    expect(free.stdout).toContain("free");
+
+    const holder = execa("tsx", [
+      CLI_PATH,
+      "--lock",
+      TEST_LOCK,
+      "--no-color",
+      "--",
+      "node",
+      "-e",
+      "setTimeout(() => {}, 6000)",
+    ]);
+    // Wait until the holder has taken the lock
+    while (!existsSync(`${TEST_LOCK}.holder.json`)) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    const held = await execa(
+      "tsx",
+      [CLI_PATH, "status", "--lock", TEST_LOCK, "--json"],
+      { reject: false },
+    );
+    expect(held.exitCode).toBe(3);
+    expect(JSON.parse(held.stdout)).toMatchObject({
+      held: true,
+      holder: { command: ["node", "-e", "setTimeout(() => {}, 6000)"] },
+    });
+
+    holder.kill();
+    await holder.catch(() => {});
+  }, 20000);
+
+  it("prefixes output and tees it to a file", async () => {
+    const teeFile = "/tmp/mutex-run-test-cli-tee.log";
+    try {
+      const result = await execa("tsx", [
+        CLI_PATH,
+        "--lock",
+        TEST_LOCK,
+        "--prefix",
+        "[build]",
+        "--tee",
+        teeFile,
+        "--",
+        "echo",
+        "hello",
+      ]);
+      expect(result.stdout).toBe("[build] hello");
+      expect(await readFile(teeFile, "utf8")).toBe("[build] hello\n");
+    } finally {
+      await rm(teeFile, { force: true });
+    }
+  }, 10000);
+
+  it("runs nested invocations on the same lock without waiting", async () => {
+    const result = await execa("tsx", [
+      CLI_PATH,
+      "--lock",
+      TEST_LOCK,
+      "--no-wait",
+      "--",
+      "tsx",
+      CLI_PATH,
+      "--lock",
+      TEST_LOCK,
+      "--no-wait",
+      "--",
+      "echo",
+      "nested",
+    ]);
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("nested");
+  }, 20000);
+
+  it("holds a lock across commands until released", async () => {
+    const hold = await execa("tsx", [
+      CLI_PATH,
+      "hold",
+      "--lock",
+      TEST_LOCK,
+      "--parent",
+      String(process.pid),
+    ]);
+    const token = hold.stdout.match(/^export MUTEX_RUN_TOKEN='(\S+)'$/m)?.[1];
+    expect(token).toBeDefined();
+    expect(existsSync(`${TEST_LOCK}.lock`)).toBe(true);
+
+    const blocked = await execa(
+      "tsx",
+      [CLI_PATH, "--lock", TEST_LOCK, "--no-wait", "--", "echo", "hi"],
+      { reject: false },
+    );
+    expect(blocked.exitCode).toBe(1);
+
+    await execa("tsx", [CLI_PATH, "release"], {
+      env: { MUTEX_RUN_TOKEN: token },
+    });
+    expect(existsSync(`${TEST_LOCK}.lock`)).toBe(false);
+  }, 20000);
+
+  it("releases a hold when its parent process exits", async () => {
+    const parent = execa("node", ["-e", "setTimeout(() => {}, 30000)"]);
+    await execa("tsx", [
+      CLI_PATH,
+      "hold",
+      "--lock",
+      TEST_LOCK,
+      "--parent",
+      String(parent.pid),
+    ]);
+    expect(existsSync(`${TEST_LOCK}.lock`)).toBe(true);
+
+    parent.kill();
+    await parent.catch(() => {});
+    const deadline = Date.now() + 5000;
+    while (existsSync(`${TEST_LOCK}.lock`) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(existsSync(`${TEST_LOCK}.lock`)).toBe(false);
+  }, 20000);
+
+  it("reports a hold whose keeper lost the lock", async () => {
+    const hold = await execa("tsx", [
+      CLI_PATH,
+      "hold",
+      "--lock",
+      TEST_LOCK,
+      "--stale-timeout",
+      "4s",
+      "--parent",
+      String(process.pid),
+    ]);
+    const token = hold.stdout.match(/^export MUTEX_RUN_TOKEN='(\S+)'$/m)![1]!;
+    const { pid } = JSON.parse(Buffer.from(token, "base64url").toString());
+
+    // Someone breaks the lock; the keeper notices on its next refresh
+    await rm(`${TEST_LOCK}.lock`, { recursive: true });
+    const lostRecord = `${TEST_LOCK}.hold-${pid}.lost.json`;
+    const deadline = Date.now() + 10000;
+    while (!existsSync(lostRecord) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(existsSync(lostRecord)).toBe(true);
+
+    const status = await execa(
+      "tsx",
+      [CLI_PATH, "status", "--lock", TEST_LOCK, "--no-color"],
+      { reject: false },
+    );
+    expect(status.stdout).toContain(`hold lost: keeper (pid ${pid})`);
+
+    const release = await execa("tsx", [CLI_PATH, "release"], {
+      env: { MUTEX_RUN_TOKEN: token },
+      reject: false,
+    });
+    expect(release.exitCode).toBe(1);
+    expect(release.stderr).toContain(`Hold on ${TEST_LOCK} was lost`);
+    expect(existsSync(lostRecord)).toBe(false);
+  }, 30000);
+
+  it("ties a hold to the calling shell past wrappers", async () => {
+    // tsx is a wrapper here; the shell stays behind as `sleep`
+    const shell = execa("sh", [
+      "-c",
+      `tsx ${CLI_PATH} hold --lock ${TEST_LOCK} >/dev/null; exec sleep 30`,
+    ]);
+    const deadline = Date.now() + 10000;
+    while (!existsSync(`${TEST_LOCK}.lock`) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(existsSync(`${TEST_LOCK}.lock`)).toBe(true);
+    // The wrapper is long gone, yet the hold stays
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(existsSync(`${TEST_LOCK}.lock`)).toBe(true);
+
+    shell.kill();
+    await shell.catch(() => {});
+    const released = Date.now() + 5000;
+    while (existsSync(`${TEST_LOCK}.lock`) && Date.now() < released) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(existsSync(`${TEST_LOCK}.lock`)).toBe(false);
+  }, 30000);
+
+  it("refuses to hold a lock for a parent process that is gone", async () => {
+    const parent = execa("node", ["-e", ""]);
+    await parent;
+    const gone = await execa(
+      "tsx",
+      [CLI_PATH, "hold", "--lock", TEST_LOCK, "--parent", String(parent.pid)],
+      { reject: false },
+    );
+    expect(gone.exitCode).toBe(1);
+    expect(gone.stderr).toContain("is not running");
+    expect(existsSync(`${TEST_LOCK}.lock`)).toBe(false);
+  }, 20000);
+
   it("handles signals and cleans up", async () => {
     const lockFile = "/tmp/mutex-run-test-signal.lock";
 
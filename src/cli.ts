@@ -1,22 +1,137 @@
 #!/usr/bin/env node
-import { defineCommand, runMain } from "citty";
-import { splitAtDoubleDash } from "./utils";
-import { resolve } from "node:path";
+import { fstatSync, writeSync } from "node:fs";
+import { defineCommand, runMain, type CommandDef } from "citty";
+import { formatDuration, parseDuration, splitAtDoubleDash } from "./utils";
 import ora from "ora";
 import { createLogger } from "./logger";
-import { mutexRun } from "./mutex-run";
+import { mutexRun, resolveLockFiles, type MutexRunOptions } from "./mutex-run";
+import { applyProfile, loadProfile } from "./config";
+import { LockAcquisitionError, lockOrder } from "./lock";
+import { formatHolder } from "./holder";
+import { exitCodeForSignal, InterruptedError } from "./signals";
+import type { MutexRunEvent } from "./events";
+import { status } from "./commands/status";
+import { list } from "./commands/list";
+import { unlock } from "./commands/unlock";
+import { stats } from "./commands/stats";
+import { hold } from "./commands/hold";
+import { release } from "./commands/release";
+import { daemon } from "./commands/daemon";
+import { isStaleCheck, parseDurationFlag } from "./commands/shared";
 
 const main = defineCommand({
   meta: {
     name: "mutex-run",
     version: "0.0.1",
-    description: "Run just one thing at a time!",
+    description:
+      "Run just one thing at a time! Other commands: status, list, unlock, stats, hold, release, daemon (see <command> --help).",
   },
   args: {
     lock: {
       type: "string",
-      description: "Lock file path (relative or absolute).",
-      default: ".mutex-run.lock",
+      description:
+        "Lock file path (relative or absolute; default: .mutex-run.lock). Repeat to hold several locks at once.",
+    },
+    name: {
+      type: "string",
+      description:
+        "Use a named lock in the shared lock directory ($MUTEX_RUN_DIR, $XDG_RUNTIME_DIR/mutex-run or the temp dir). Repeatable.",
+    },
+    "name-from-command": {
+      type: "boolean",
+      description:
+        "Use a named lock derived from the command and cwd, so the same command in the same directory never runs twice at once.",
+    },
+    max: {
+      type: "string",
+      description:
+        "Maximum number of commands holding the lock at once (semaphore mode, default: 1).",
+    },
+    shared: {
+      type: "boolean",
+      description:
+        "Take a shared lock: shared holders run together, exclusive ones run alone.",
+    },
+    fair: {
+      type: "boolean",
+      description: "Wait in a first-come, first-served queue.",
+    },
+    coalesce: {
+      type: "boolean",
+      description:
+        "If an identical command holds the lock, wait for it and reuse its exit code instead of running again.",
+    },
+    "coalesce-key": {
+      type: "string",
+      description:
+        "Key identifying identical commands (implies --coalesce; default: command + cwd).",
+    },
+    "replay-output": {
+      type: "boolean",
+      description:
+        "With --coalesce, replay the output of the run we coalesced with.",
+    },
+    inputs: {
+      type: "string",
+      description:
+        "Comma-separated globs of input files; skip the command if they are unchanged since the last successful run.",
+    },
+    "input-key": {
+      type: "string",
+      description:
+        "Extra key for the inputs fingerprint, e.g. a commit SHA (enables skipping).",
+    },
+    "fresh-ttl": {
+      type: "string",
+      description:
+        "How long a successful run stays fresh, e.g. 1h (0 = forever, enables skipping).",
+    },
+    prefix: {
+      type: "string",
+      description: "Put this before every line of output, e.g. [build].",
+    },
+    timestamps: {
+      type: "boolean",
+      description: "Put the time before every line of output.",
+    },
+    tee: {
+      type: "string",
+      description:
+        "Also append the command's output to this file, as shown in the terminal.",
+    },
+    history: {
+      type: "boolean",
+      description:
+        "Record wait and hold times of this run next to the lock, for mutex-run stats.",
+    },
+    reentrant: {
+      type: "boolean",
+      description:
+        "Run right away when a mutex-run this command runs under already holds the lock (default: true).",
+    },
+    profile: {
+      type: "string",
+      description:
+        'Apply a profile from mutex-run.config.json (or the "mutex-run" key in package.json). Flags override its values.',
+    },
+    config: {
+      type: "string",
+      description:
+        "Config file to read --profile from (default: the closest one to the current directory).",
+    },
+    json: {
+      type: "boolean",
+      description: "Report progress as JSON events (same as --events ndjson).",
+    },
+    events: {
+      type: "string",
+      description:
+        'Report progress as events instead of messages; "ndjson" writes one JSON object per line.',
+    },
+    "events-fd": {
+      type: "string",
+      description:
+        "File descriptor to write events to (default: 2, stderr), e.g. 3 with 3>events.ndjson.",
     },
     verbose: {
       type: "boolean",
@@ -31,18 +146,51 @@ const main = defineCommand({
     wait: {
       type: "boolean",
       description:
-        "Wait for lock instead of failing immediately (default: true, waits ~1 hour).",
-      default: true,
+        "Wait for lock instead of failing immediately (default: true, for up to --max-wait).",
     },
     timeout: {
       type: "string",
-      description: "Overall timeout in milliseconds (0 = no timeout).",
-      default: "0",
+      description:
+        "Overall timeout, e.g. 30s or 5m (plain numbers are milliseconds; default: 0 = no timeout).",
+    },
+    "max-wait": {
+      type: "string",
+      description:
+        'How long --wait keeps retrying a held lock, or "infinity" (default: 1h).',
+    },
+    "retry-interval": {
+      type: "string",
+      description:
+        "Delay before the first retry while waiting (default: 1s). Waiters also retry as soon as the lock is released.",
+    },
+    "max-retry-interval": {
+      type: "string",
+      description: "Longest delay between retries (default: 3s).",
+    },
+    "backoff-factor": {
+      type: "string",
+      description:
+        "Factor the delay between retries grows by (default: 1.1; 1 = no backoff).",
+    },
+    "run-timeout": {
+      type: "string",
+      description:
+        "Kill the command if it runs longer than this, e.g. 30m (default: 0 = no limit; exit code 124).",
+    },
+    "kill-grace-period": {
+      type: "string",
+      description:
+        "After --run-timeout, wait this long for the command to exit on SIGTERM before sending SIGKILL (default: 5s).",
     },
     "stale-timeout": {
       type: "string",
-      description: "Consider locks older than this stale (milliseconds).",
-      default: "600000", // 10 minutes
+      description:
+        "Consider locks older than this stale, e.g. 10m (default: 10m).",
+    },
+    "stale-check": {
+      type: "string",
+      description:
+        'How to tell a holder is gone: "age" (stale timeout, the default) or "pid" (holder process no longer runs; "age" for other hosts).',
     },
   },
   async run({ args, rawArgs }) {
@@ -51,10 +199,6 @@ const main = defineCommand({
     // Create logger with verbose and color settings
     const log = createLogger(args.verbose, !args["no-color"]);
 
-    // Parse numeric arguments
-    const timeout = parseInt(args.timeout, 10);
-    const staleTimeout = parseInt(args["stale-timeout"], 10);
-
     // If there is no "--" in the args, assume that everything is the command
     const childArgv = tail.length === 0 ? head : tail;
 
@@ -66,56 +210,266 @@ const main = defineCommand({
       process.exit(1);
     }
 
-    // Resolve lock path for spinner display
-    const lockPath = resolve(args.lock);
+    const staleCheck = args["stale-check"];
+    if (staleCheck !== undefined && !isStaleCheck(staleCheck)) {
+      log.error(`Invalid --stale-check value: ${staleCheck}`);
+      log.info('--stale-check must be "age" or "pid"');
+      process.exit(1);
+    }
+
+    const eventFormat = args.json ? "ndjson" : args.events;
+    if (eventFormat !== undefined && eventFormat !== "ndjson") {
+      log.error(`Invalid --events value: ${eventFormat}`);
+      log.info('--events must be "ndjson"');
+      process.exit(1);
+    }
+    const eventsFd = Number(args["events-fd"] ?? 2);
+    if (!Number.isInteger(eventsFd) || !isOpenFd(eventsFd)) {
+      log.error(`Invalid --events-fd value: ${args["events-fd"]}`);
+      log.info("--events-fd must be an open file descriptor");
+      process.exit(1);
+    }
+    // Events replace the human-readable progress output
+    const onEvent = eventFormat
+      ? (event: MutexRunEvent) => {
+          writeSync(eventsFd, `${JSON.stringify(event)}\n`);
+        }
+      : undefined;
+
+    const backoffFactor =
+      args["backoff-factor"] === undefined
+        ? undefined
+        : Number(args["backoff-factor"]);
+    if (
+      backoffFactor !== undefined &&
+      (!Number.isFinite(backoffFactor) || backoffFactor < 1)
+    ) {
+      log.error(`Invalid --backoff-factor value: ${args["backoff-factor"]}`);
+      log.info("--backoff-factor must be a number of at least 1");
+      process.exit(1);
+    }
+
+    // Options given as flags; whatever is left undefined comes from the
+    // profile, or else the library defaults
+    let options: MutexRunOptions = {
+      lockFile: args.lock,
+      name: args.name,
+      nameFromCommand: args["name-from-command"],
+      concurrency: args.max === undefined ? undefined : Number(args.max),
+      mode:
+        args.shared === undefined
+          ? undefined
+          : args.shared
+            ? "shared"
+            : "exclusive",
+      fair: args.fair,
+      history: args.history,
+      reentrant: args.reentrant,
+      outputPrefix: args.prefix,
+      timestamps: args.timestamps,
+      teeFile: args.tee,
+      wait: args.wait,
+      timeout: parseDurationFlag("timeout", args.timeout, log),
+      maxWait: parseDurationFlag("max-wait", args["max-wait"], log, {
+        allowInfinity: true,
+      }),
+      retryInterval: parseDurationFlag(
+        "retry-interval",
+        args["retry-interval"],
+        log,
+      ),
+      maxRetryInterval: parseDurationFlag(
+        "max-retry-interval",
+        args["max-retry-interval"],
+        log,
+      ),
+      backoffFactor,
+      staleTimeout: parseDurationFlag(
+        "stale-timeout",
+        args["stale-timeout"],
+        log,
+      ),
+      staleCheck,
+      runTimeout: parseDurationFlag("run-timeout", args["run-timeout"], log),
+      killGracePeriod: parseDurationFlag(
+        "kill-grace-period",
+        args["kill-grace-period"],
+        log,
+      ),
+      coalesce:
+        args.coalesce || args["coalesce-key"]
+          ? {
+              key: args["coalesce-key"],
+              replayOutput: args["replay-output"],
+            }
+          : undefined,
+      skipIfFresh:
+        args.inputs || args["input-key"] || args["fresh-ttl"]
+          ? {
+              inputs: args.inputs
+                ?.split(",")
+                .map((input) => input.trim())
+                .filter(Boolean),
+              key: args["input-key"],
+              ttl: parseDurationFlag("fresh-ttl", args["fresh-ttl"], log, {
+                unbounded: true,
+              }),
+            }
+          : undefined,
+    };
+
+    // Repeated --lock and --name arrive as arrays; all locks are taken in
+    // lock order
+    let lockPaths: string[];
+    try {
+      if (args.profile) {
+        const profile = await loadProfile(args.profile, {
+          configPath: args.config,
+        });
+        options = applyProfile(profile, options);
+      }
+      lockPaths = lockOrder(await resolveLockFiles(options, childArgv));
+    } catch (err) {
+      log.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    const lockPath = lockPaths.join(", ");
+
+    const { concurrency } = options;
+    if (
+      concurrency !== undefined &&
+      (!Number.isInteger(concurrency) || concurrency < 1)
+    ) {
+      log.error(`Invalid --max value: ${args.max ?? concurrency}`);
+      log.info("--max must be a positive integer");
+      process.exit(1);
+    }
 
     // Create spinner for lock acquisition (only if not verbose and color is enabled)
     const spinner =
-      args.verbose || args["no-color"]
+      args.verbose || args["no-color"] || onEvent
         ? null
         : ora({
             text: `Acquiring lock at ${lockPath}`,
             color: "cyan",
           }).start();
 
+    // Spinner text is built from what we learn while waiting
+    let waitingOn = "";
+    let queuePosition = "";
+    const updateSpinner = () => {
+      if (spinner) {
+        spinner.text = [waitingOn, queuePosition].filter(Boolean).join(", ");
+      }
+    };
+
     // Show simple message if no-color is enabled
-    if (!args.verbose && args["no-color"]) {
+    if (!args.verbose && args["no-color"] && !onEvent) {
       log.info(`Acquiring lock...`);
     }
 
     try {
       // Call mutexRun API with mapped options
       const result = await mutexRun(childArgv, {
-        lockFile: args.lock,
-        wait: args.wait,
-        timeout,
-        staleTimeout,
+        ...options,
+        // Named locks are resolved already
+        lockFile: lockPaths,
+        name: undefined,
+        nameFromCommand: undefined,
+        onHolder: (holder, heldLock) => {
+          waitingOn =
+            lockPaths.length > 1
+              ? `Waiting on ${formatHolder(holder)} for ${heldLock}`
+              : `Waiting on ${formatHolder(holder)}`;
+          updateSpinner();
+        },
+        onQueue: (position, length) => {
+          queuePosition = `position ${position} of ${length} in queue`;
+          updateSpinner();
+          if (!spinner && !args.verbose && !onEvent) {
+            log.info(`Waiting at ${queuePosition}`);
+          }
+        },
         logger: args.verbose
           ? {
               log: (...logArgs: any[]) => log.verbose(...logArgs),
               error: (...logArgs: any[]) => log.error(...logArgs),
             }
           : undefined,
+        onEvent,
       });
 
-      if (spinner) {
-        spinner.succeed("Command completed");
+      if (onEvent) {
+        // Reported by the child-exit event
+      } else if (result.timedOut || result.signal) {
+        const message = result.timedOut
+          ? `Command timed out after ${formatDuration(parseDuration(options.runTimeout ?? 0))} and was killed`
+          : `Command was terminated by ${result.signal}`;
+        if (spinner) {
+          spinner.fail(message);
+        } else {
+          log.error(message);
+        }
+      } else if (spinner) {
+        spinner.succeed(
+          result.coalesced
+            ? "Identical command completed while waiting, not run again"
+            : result.skipped
+              ? "Inputs unchanged since the last successful run, skipped"
+              : "Command completed",
+        );
+      } else if (result.coalesced) {
+        log.info("Identical command completed while waiting, not run again");
+      } else if (result.skipped) {
+        log.info("Inputs unchanged since the last successful run, skipped");
       }
 
+      // Die of the same signal as the command, so callers see 128+N
+      if (result.signal && !result.timedOut) {
+        exitWithSignal(result.signal);
+      }
       process.exit(result.exitCode);
     } catch (err: any) {
+      // Reported by the error event
+      if (onEvent) {
+        if (err instanceof InterruptedError) exitWithSignal(err.signal);
+        process.exit(1);
+      }
+
+      if (err instanceof InterruptedError) {
+        if (spinner) {
+          spinner.fail(
+            `Interrupted by ${err.signal} while waiting for the lock`,
+          );
+        } else {
+          log.error(`Interrupted by ${err.signal} while waiting for the lock`);
+        }
+        exitWithSignal(err.signal);
+      }
+
       if (spinner) {
         spinner.fail("Failed to acquire lock");
       }
 
-      log.error(`Failed to acquire lock at: ${lockPath}`);
-      log.info("");
-      log.info("This could mean:");
-      log.info("  - Another instance is currently running");
-      log.info("  - A stale lock exists (consider adjusting --stale-timeout)");
-      log.info("  - Insufficient permissions to create/access the lock file");
+      // With several locks, name the one that was contended
+      const failedLock =
+        err instanceof LockAcquisitionError ? err.lockPath : lockPath;
+      log.error(`Failed to acquire lock at: ${failedLock}`);
       log.info("");
-      log.info(`Try: mutex-run --verbose --lock ${lockPath} -- <command>`);
+      if (err instanceof LockAcquisitionError && err.holder) {
+        log.info(`Lock is held by ${formatHolder(err.holder)}`);
+        log.info(`  host: ${err.holder.hostname}, cwd: ${err.holder.cwd}`);
+        log.info("");
+      } else {
+        log.info("This could mean:");
+        log.info("  - Another instance is currently running");
+        log.info(
+          "  - A stale lock exists (consider adjusting --stale-timeout)",
+        );
+        log.info("  - Insufficient permissions to create/access the lock file");
+        log.info("");
+      }
+      log.info(`Try: mutex-run --verbose --lock ${failedLock} -- <command>`);
       log.verbose("");
       log.verbose("Error details:");
       log.verbose(String(err));
@@ -124,4 +478,43 @@ const main = defineCommand({
   },
 });
 
-runMain(main);
+/**
+ * Terminate this process with a signal, the way a shell reports a command
+ * killed by it. Exits with 128+N should the signal not end the process.
+ */
+function exitWithSignal(signal: NodeJS.Signals): never {
+  try {
+    process.kill(process.pid, signal);
+  } catch {
+    // Not supported for this signal here, fall through to the exit code
+  }
+  process.exit(exitCodeForSignal(signal));
+}
+
+/** Whether a file descriptor is open in this process. */
+function isOpenFd(fd: number) {
+  try {
+    fstatSync(fd);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Subcommands are dispatched by hand: citty would otherwise treat the first
+// word of the wrapped command (or an option value) as a subcommand name
+const subCommands: Record<string, CommandDef<any>> = {
+  status,
+  list,
+  unlock,
+  stats,
+  hold,
+  release,
+  daemon,
+};
+const subCommand = process.argv[2];
+if (subCommand && Object.hasOwn(subCommands, subCommand)) {
+  runMain(subCommands[subCommand]!, { rawArgs: process.argv.slice(3) });
+} else {
+  runMain(main);
+}
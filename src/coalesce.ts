@@ -0,0 +1,86 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { HolderInfo } from "./holder";
+
+/**
+ * Outcome of a coalescable run, published for waiters running the same thing
+ */
+export interface RunResult {
+  /**
+   * Coalesce key of the run
+   */
+  key: string;
+
+  /**
+   * Identifies the run (see runId)
+   */
+  runId: string;
+
+  /**
+   * Exit code of the command
+   */
+  exitCode: number;
+
+  /**
+   * When the command finished (ISO 8601)
+   */
+  finishedAt: string;
+
+  /**
+   * Captured stdout (only when output replay was requested)
+   */
+  stdout?: string;
+
+  /**
+   * Captured stderr (only when output replay was requested)
+   */
+  stderr?: string;
+}
+
+/** Default coalesce key: the same command in the same directory. */
+export function coalesceKey(command: string[], cwd: string = process.cwd()) {
+  return createHash("sha256")
+    .update(JSON.stringify([command, resolve(cwd)]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/** Identify a single run of a holder. */
+export function runId(holder: HolderInfo) {
+  return `${holder.hostname}:${holder.pid}:${holder.startedAt}`;
+}
+
+/** Directory holding the latest result per coalesce key. */
+export function resultsDir(lockPath: string) {
+  return `${lockPath}.results`;
+}
+
+function resultPath(lockPath: string, key: string) {
+  const name = createHash("sha256").update(key).digest("hex").slice(0, 16);
+  return join(resultsDir(lockPath), `${name}.json`);
+}
+
+/** Publish the result of a run, replacing the previous one for its key. */
+export async function writeRunResult(lockPath: string, result: RunResult) {
+  const path = resultPath(lockPath, result.key);
+  await mkdir(resultsDir(lockPath), { recursive: true });
+  // Write-then-rename so waiters never read a half-written result
+  await writeFile(`${path}.${process.pid}.tmp`, JSON.stringify(result));
+  await rename(`${path}.${process.pid}.tmp`, path);
+}
+
+/** Read the latest result for a key, if any. */
+export async function readRunResult(
+  lockPath: string,
+  key: string,
+): Promise<RunResult | undefined> {
+  try {
+    const raw = JSON.parse(await readFile(resultPath(lockPath, key), "utf8"));
+    return raw?.key === key && typeof raw.exitCode === "number"
+      ? (raw as RunResult)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,48 @@
+import { defineCommand } from "citty";
+import { createLogger } from "../logger";
+import { defaultSocketPath, SOCKET_ENV, startDaemon } from "../daemon";
+
+export const daemon = defineCommand({
+  meta: {
+    name: "daemon",
+    description: `Serve locks to mutex-run processes on this machine over a Unix socket, with instant hand-over on release. Processes use it when $${SOCKET_ENV} names the socket.`,
+  },
+  args: {
+    socket: {
+      type: "string",
+      description: `Socket to listen on (default: $${SOCKET_ENV}, else daemon.sock in the shared lock directory).`,
+    },
+    verbose: {
+      type: "boolean",
+      description: "Log every lock that is granted and released.",
+      default: false,
+    },
+    "no-color": {
+      type: "boolean",
+      description: "Disable colored output.",
+      default: process.env.CI === "true",
+    },
+  },
+  async run({ args }) {
+    const log = createLogger(args.verbose, !args["no-color"]);
+
+    let server;
+    try {
+      server = await startDaemon(args.socket ?? defaultSocketPath(), {
+        logger: { log: log.verbose },
+      });
+    } catch (err) {
+      log.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    log.success(`Listening on ${server.socketPath}`);
+    log.info(`Use it with: export ${SOCKET_ENV}=${server.socketPath}`);
+
+    const stop = async () => {
+      await server.close();
+      process.exit(0);
+    };
+    process.once("SIGINT", () => void stop());
+    process.once("SIGTERM", () => void stop());
+  },
+});
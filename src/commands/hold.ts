@@ -0,0 +1,137 @@
+import { defineCommand } from "citty";
+import { createLogger } from "../logger";
+import { resolveLockFiles } from "../mutex-run";
+import { lockOrder } from "../lock";
+import {
+  callingShell,
+  KEEPER_ENV,
+  runKeeper,
+  startKeeper,
+  TOKEN_ENV,
+} from "../hold";
+import { isStaleCheck, parseDurationFlag } from "./shared";
+
+export const hold = defineCommand({
+  meta: {
+    name: "hold",
+    description: `Acquire a lock and keep holding it in the background until \`mutex-run release\`, e.g. eval "$(mutex-run hold --lock X)". Prints the release token as \`export ${TOKEN_ENV}=...\`.`,
+  },
+  args: {
+    lock: {
+      type: "string",
+      description:
+        "Lock file path (relative or absolute; default: .mutex-run.lock). Repeatable.",
+    },
+    name: {
+      type: "string",
+      description:
+        "Name of a lock in the shared lock directory (see --name of mutex-run). Repeatable.",
+    },
+    parent: {
+      type: "string",
+      description:
+        "Release the lock when the process with this pid exits (default: the calling shell, looking past wrappers such as npx or pnpm exec; 0 = never).",
+    },
+    wait: {
+      type: "boolean",
+      description: "Wait for the lock instead of failing immediately.",
+      default: true,
+    },
+    timeout: {
+      type: "string",
+      description:
+        "Overall timeout for acquiring, e.g. 5m (default: 0 = none).",
+    },
+    "max-wait": {
+      type: "string",
+      description: 'How long to keep retrying, or "infinity" (default: 1h).',
+    },
+    "stale-timeout": {
+      type: "string",
+      description: "Consider locks older than this stale, e.g. 30s or 10m.",
+    },
+    "stale-check": {
+      type: "string",
+      description: 'How to tell a holder is gone: "age" or "pid".',
+    },
+    export: {
+      type: "boolean",
+      description: `Print \`export ${TOKEN_ENV}=<token>\` for eval; --no-export prints just the token.`,
+      default: true,
+    },
+    "no-color": {
+      type: "boolean",
+      description: "Disable colored output.",
+      default: process.env.CI === "true",
+    },
+  },
+  async run({ args, rawArgs }) {
+    const log = createLogger(false, !args["no-color"]);
+
+    const staleCheck = args["stale-check"];
+    if (staleCheck !== undefined && !isStaleCheck(staleCheck)) {
+      log.error(`Invalid --stale-check value: ${staleCheck}`);
+      process.exit(1);
+    }
+    const parent = Number(
+      process.env[KEEPER_ENV] ?? args.parent ?? (await callingShell()),
+    );
+    if (!Number.isInteger(parent) || parent < 0) {
+      log.error(`Invalid --parent value: ${args.parent}`);
+      process.exit(1);
+    }
+    const options = {
+      wait: args.wait,
+      timeout: parseDurationFlag("timeout", args.timeout, log),
+      maxWait: parseDurationFlag("max-wait", args["max-wait"], log, {
+        allowInfinity: true,
+      }),
+      staleTimeout: parseDurationFlag(
+        "stale-timeout",
+        args["stale-timeout"],
+        log,
+      ),
+      staleCheck,
+    };
+
+    let lockPaths: string[];
+    try {
+      lockPaths = lockOrder(
+        await resolveLockFiles({ lockFile: args.lock, name: args.name }, []),
+      );
+    } catch (err) {
+      log.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+
+    // We are the keeper started below
+    if (process.env[KEEPER_ENV] !== undefined) {
+      await runKeeper(lockPaths, options, parent);
+      return;
+    }
+
+    try {
+      const { token, env } = await startKeeper(rawArgs, parent);
+      if (args.export) {
+        // Runs in the shell see the lock as theirs already
+        for (const [name, value] of Object.entries({
+          [TOKEN_ENV]: token,
+          ...env,
+        })) {
+          console.log(`export ${name}=${shellQuote(value)}`);
+        }
+      } else {
+        console.log(token);
+      }
+      log.success(`Holding lock at ${lockPaths.join(", ")}`);
+    } catch (err) {
+      log.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+  },
+});
+
+/** Quote a value for POSIX shells. */
+function shellQuote(value: string) {
+  return `'${value.replaceAll("'", `'\\''`)}'`;
+}
@@ -0,0 +1,84 @@
+import { defineCommand } from "citty";
+import { existsSync } from "node:fs";
+import { createLogger } from "../logger";
+import { lockDir } from "../names";
+import { listLocks } from "../inspect";
+import {
+  EXIT_FREE,
+  EXIT_HELD,
+  formatStatus,
+  isStaleCheck,
+  parseDurationFlag,
+} from "./shared";
+
+export const list = defineCommand({
+  meta: {
+    name: "list",
+    description:
+      "Show every held, stale or contended lock in a directory (exit code 3 if any is held).",
+  },
+  args: {
+    dir: {
+      type: "string",
+      description: "Directory to look for locks in.",
+      default: ".",
+    },
+    named: {
+      type: "boolean",
+      description: "List the named locks in the shared lock directory instead.",
+      default: false,
+    },
+    "stale-timeout": {
+      type: "string",
+      description: "Consider locks older than this stale, e.g. 30s or 10m.",
+      default: "10m",
+    },
+    "stale-check": {
+      type: "string",
+      description:
+        'How to tell a holder is gone: "age" (stale timeout) or "pid" (holder process no longer runs; "age" for other hosts).',
+      default: "age",
+    },
+    json: {
+      type: "boolean",
+      description: "Print the locks as JSON.",
+      default: false,
+    },
+    "no-color": {
+      type: "boolean",
+      description: "Disable colored output.",
+      default: process.env.CI === "true",
+    },
+  },
+  async run({ args }) {
+    const log = createLogger(false, !args["no-color"]);
+    if (!isStaleCheck(args["stale-check"])) {
+      log.error(`Invalid --stale-check value: ${args["stale-check"]}`);
+      process.exit(1);
+    }
+    const dir = args.named ? lockDir() : args.dir;
+    // The shared lock directory only exists once a named lock was used
+    const locks =
+      args.named && !existsSync(dir)
+        ? []
+        : await listLocks(dir, {
+            staleTimeout: parseDurationFlag(
+              "stale-timeout",
+              args["stale-timeout"],
+              log,
+            ),
+            staleCheck: args["stale-check"],
+          });
+
+    if (args.json) {
+      console.log(JSON.stringify(locks, null, 2));
+    } else if (locks.length === 0) {
+      console.log(`No locks in ${dir}`);
+    } else {
+      console.log(
+        locks.map((lock) => formatStatus(lock, log.colors)).join("\n"),
+      );
+    }
+    process.exit(locks.some((lock) => lock.held) ? EXIT_HELD : EXIT_FREE);
+  },
+});
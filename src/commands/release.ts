@@ -0,0 +1,39 @@
+import { defineCommand } from "citty";
+import { createLogger } from "../logger";
+import { releaseHold, TOKEN_ENV } from "../hold";
+
+export const release = defineCommand({
+  meta: {
+    name: "release",
+    description: "Release a lock held with `mutex-run hold`.",
+  },
+  args: {
+    token: {
+      type: "string",
+      description: `Token printed by mutex-run hold (default: $${TOKEN_ENV}).`,
+    },
+    "no-color": {
+      type: "boolean",
+      description: "Disable colored output.",
+      default: process.env.CI === "true",
+    },
+  },
+  async run({ args }) {
+    const log = createLogger(false, !args["no-color"]);
+
+    const token = args.token ?? process.env[TOKEN_ENV];
+    if (!token) {
+      log.error(`No token given and $${TOKEN_ENV} is not set`);
+      log.info("Usage: mutex-run release [--token <token>]");
+      process.exit(1);
+    }
+
+    try {
+      const lockPaths = await releaseHold(token);
+      log.success(`Released lock at ${lockPaths.join(", ")}`);
+    } catch (err) {
+      log.error(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+  },
+});
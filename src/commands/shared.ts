@@ -0,0 +1,75 @@
+import { formatHolder } from "../holder";
+import { createLogger } from "../logger";
+import type { LockStatus } from "../inspect";
+import type { StaleCheck } from "../stale";
+import { DURATION_USAGE, formatDuration, parseDuration } from "../utils";
+
+/** Exit codes of the inspection commands, so scripts can branch on them. */
+export const EXIT_FREE = 0;
+export const EXIT_HELD = 3;
+export const EXIT_STALE = 4;
+
+/** Whether a --stale-check value names a known check. */
+export function isStaleCheck(value: string): value is StaleCheck {
+  return value === "age" || value === "pid";
+}
+
+/**
+ * Parse a duration flag, exiting with usage help when the value is invalid.
+ */
+export function parseDurationFlag(
+  flag: string,
+  value: string | undefined,
+  log: ReturnType<typeof createLogger>,
+  options?: Parameters<typeof parseDuration>[1],
+) {
+  if (value === undefined) return undefined;
+  try {
+    return parseDuration(value, options);
+  } catch {
+    log.error(`Invalid --${flag} value: ${value}`);
+    log.info(DURATION_USAGE);
+    process.exit(1);
+  }
+}
+
+/** Exit code describing a lock's state. */
+export function statusExitCode(status: LockStatus) {
+  if (status.held) return EXIT_HELD;
+  if (status.stale) return EXIT_STALE;
+  return EXIT_FREE;
+}
+
+/** Describe a lock's state for humans, one fact per line. */
+export function formatStatus(
+  status: LockStatus,
+  colors: ReturnType<typeof createLogger>["colors"],
+) {
+  const state = status.held
+    ? colors.yellow("held")
+    : status.stale
+      ? colors.red("stale")
+      : colors.green("free");
+  const lines = [`${state}: ${status.lockPath}`];
+
+  const { holder } = status;
+  if (holder) {
+    lines.push(`  holder: ${formatHolder(holder)}`);
+    lines.push(
+      `  user: ${holder.user ?? "unknown"}, host: ${holder.hostname}, cwd: ${holder.cwd}`,
+    );
+    if (holder.lockSet) {
+      lines.push(`  holds together: ${holder.lockSet.join(", ")}`);
+    }
+  }
+  if (status.age !== undefined) {
+    lines.push(`  age: ${formatDuration(status.age)}`);
+  }
+  if (status.slots > 1) lines.push(`  slots held: ${status.slots}`);
+  if (status.readers > 0) lines.push(`  shared holders: ${status.readers}`);
+  if (status.waiting > 0) lines.push(`  waiting: ${status.waiting}`);
+  if (status.stale) {
+    lines.push("  abandoned; the next holder will take it over");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,99 @@
+import { defineCommand } from "citty";
+import { createLogger } from "../logger";
+import { namedLockPath } from "../names";
+import { historyStats, readHistory, type HistoryStats } from "../history";
+import { formatDuration } from "../utils";
+import { parseDurationFlag } from "./shared";
+
+export const stats = defineCommand({
+  meta: {
+    name: "stats",
+    description:
+      "Summarize the recorded history of a lock (runs recorded with --history): wait and hold times, failures and frequent holders.",
+  },
+  args: {
+    lock: {
+      type: "string",
+      description: "Lock file path (relative or absolute).",
+      default: ".mutex-run.lock",
+    },
+    name: {
+      type: "string",
+      description:
+        "Name of a lock in the shared lock directory (see --name of mutex-run).",
+    },
+    since: {
+      type: "string",
+      description: "Only include runs started within this time, e.g. 24h.",
+      default: "7d",
+    },
+    json: {
+      type: "boolean",
+      description: "Print the statistics as JSON.",
+      default: false,
+    },
+    "no-color": {
+      type: "boolean",
+      description: "Disable colored output.",
+      default: process.env.CI === "true",
+    },
+  },
+  async run({ args }) {
+    const log = createLogger(false, !args["no-color"]);
+    const since = parseDurationFlag("since", args.since, log, {
+      unbounded: true,
+    })!;
+    const lockPath = args.name ? namedLockPath(args.name) : args.lock;
+
+    const result = historyStats(
+      await readHistory(lockPath, { since: Date.now() - since }),
+    );
+
+    if (args.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (result.runs === 0) {
+      log.info(
+        `No runs recorded for ${lockPath} in the last ${args.since} (record them with --history)`,
+      );
+    } else {
+      console.log(formatStats(lockPath, args.since, result, log.colors));
+    }
+  },
+});
+
+/** Describe lock statistics for humans, as a small table. */
+function formatStats(
+  lockPath: string,
+  since: string,
+  stats: HistoryStats,
+  colors: ReturnType<typeof createLogger>["colors"],
+) {
+  const percent = (share: number) => `${(share * 100).toFixed(1)}%`;
+  const times = (summary: HistoryStats["wait"]) =>
+    [
+      formatDuration(summary.p50).padStart(8),
+      formatDuration(summary.p95).padStart(8),
+      formatDuration(summary.max).padStart(8),
+      formatDuration(summary.total).padStart(8),
+    ].join("  ");
+
+  const lines = [
+    `${colors.cyan(lockPath)}: ${stats.runs} runs in the last ${since}`,
+    "",
+    `        ${["p50", "p95", "max", "total"].map((h) => h.padStart(8)).join("  ")}`,
+    `  wait  ${times(stats.wait)}`,
+    `  hold  ${times(stats.hold)}`,
+    "",
+    `  failures: ${percent(stats.failureRate)} (${stats.commandFailures} command failed, ${stats.notAcquired} did not get the lock)`,
+  ];
+
+  if (stats.topHolders.length > 0) {
+    lines.push("", "  top holders:");
+    for (const holder of stats.topHolders) {
+      lines.push(
+        `  ${String(holder.runs).padStart(6)}  \`${holder.command.join(" ")}\` on ${holder.hostname}, held ${formatDuration(holder.heldMs)}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,94 @@
+import { defineCommand } from "citty";
+import { createLogger } from "../logger";
+import { namedLockPath } from "../names";
+import { inspectLock } from "../inspect";
+import { readLostHolds } from "../hold";
+import { formatDuration } from "../utils";
+import {
+  formatStatus,
+  isStaleCheck,
+  statusExitCode,
+  parseDurationFlag,
+} from "./shared";
+
+export const status = defineCommand({
+  meta: {
+    name: "status",
+    description:
+      "Show whether a lock is held, by whom and for how long (exit code 0 free, 3 held, 4 stale).",
+  },
+  args: {
+    lock: {
+      type: "string",
+      description: "Lock file path (relative or absolute).",
+      default: ".mutex-run.lock",
+    },
+    name: {
+      type: "string",
+      description:
+        "Name of a lock in the shared lock directory (see --name of mutex-run).",
+    },
+    "stale-timeout": {
+      type: "string",
+      description: "Consider locks older than this stale, e.g. 30s or 10m.",
+      default: "10m",
+    },
+    "stale-check": {
+      type: "string",
+      description:
+        'How to tell a holder is gone: "age" (stale timeout) or "pid" (holder process no longer runs; "age" for other hosts).',
+      default: "age",
+    },
+    json: {
+      type: "boolean",
+      description: "Print the status as JSON.",
+      default: false,
+    },
+    "no-color": {
+      type: "boolean",
+      description: "Disable colored output.",
+      default: process.env.CI === "true",
+    },
+  },
+  async run({ args }) {
+    const log = createLogger(false, !args["no-color"]);
+    if (!isStaleCheck(args["stale-check"])) {
+      log.error(`Invalid --stale-check value: ${args["stale-check"]}`);
+      process.exit(1);
+    }
+    const result = await inspectLock(
+      args.name ? namedLockPath(args.name) : args.lock,
+      {
+        staleTimeout: parseDurationFlag(
+          "stale-timeout",
+          args["stale-timeout"],
+          log,
+        ),
+        staleCheck: args["stale-check"],
+      },
+    );
+
+    // Holds whose keeper lost the lock, until they are released
+    const lostHolds = await readLostHolds(result.lockPath);
+
+    if (args.json) {
+      console.log(
+        JSON.stringify(
+          lostHolds.length > 0 ? { ...result, lostHolds } : result,
+          null,
+          2,
+        ),
+      );
+    } else {
+      console.log(formatStatus(result, log.colors));
+      for (const lost of lostHolds) {
+        console.log(
+          log.colors.red(
+            `  hold lost: keeper (pid ${lost.pid}) lost the lock ${formatDuration(Date.now() - Date.parse(lost.lostAt))} ago: ${lost.reason}`,
+          ),
+        );
+      }
+    }
+    process.exit(statusExitCode(result));
+  },
+});
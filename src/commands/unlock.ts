@@ -0,0 +1,77 @@
+import { defineCommand } from "citty";
+import { createLogger } from "../logger";
+import { namedLockPath } from "../names";
+import { formatHolder } from "../holder";
+import { forceRelease, LockInUseError } from "../unlock";
+import { EXIT_HELD, parseDurationFlag } from "./shared";
+
+export const unlock = defineCommand({
+  meta: {
+    name: "unlock",
+    description:
+      "Break a lock left behind by a holder that died. Refuses if the holder may still be running, unless --force is given.",
+  },
+  args: {
+    lock: {
+      type: "string",
+      description: "Lock file path (relative or absolute).",
+      default: ".mutex-run.lock",
+    },
+    name: {
+      type: "string",
+      description:
+        "Name of a lock in the shared lock directory (see --name of mutex-run).",
+    },
+    force: {
+      type: "boolean",
+      description: "Break the lock even if its holder may still be running.",
+      default: false,
+    },
+    "stale-timeout": {
+      type: "string",
+      description: "Consider locks older than this stale, e.g. 30s or 10m.",
+      default: "10m",
+    },
+    "no-color": {
+      type: "boolean",
+      description: "Disable colored output.",
+      default: process.env.CI === "true",
+    },
+  },
+  async run({ args }) {
+    const log = createLogger(false, !args["no-color"]);
+
+    try {
+      const result = await forceRelease(
+        args.name ? namedLockPath(args.name) : args.lock,
+        {
+          force: args.force,
+          staleTimeout: parseDurationFlag(
+            "stale-timeout",
+            args["stale-timeout"],
+            log,
+          ),
+        },
+      );
+
+      if (result.removed.length === 0) {
+        log.info(`Lock at ${result.lockPath} is not held, nothing to remove`);
+        return;
+      }
+
+      log.success(`Broke lock at ${result.lockPath}`);
+      for (const holder of result.holders) {
+        log.info(`  was held by ${formatHolder(holder)}`);
+      }
+      for (const path of result.removed) {
+        log.info(`  removed ${path}`);
+      }
+    } catch (err) {
+      if (!(err instanceof LockInUseError)) throw err;
+
+      log.error(err.message);
+      log.info("Use --force to break it anyway.");
+      process.exit(EXIT_HELD);
+    }
+  },
+});
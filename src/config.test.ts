@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  applyProfile,
+  ConfigError,
+  findConfig,
+  loadProfile,
+  readConfig,
+} from "./config";
+import { mutexRun } from "./mutex-run";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+describe("config profiles", () => {
+  const root = "/tmp/mutex-run-test-config";
+  const pkgDir = join(root, "packages", "web");
+  const configPath = join(root, "mutex-run.config.json");
+
+  beforeEach(async () => {
+    await mkdir(pkgDir, { recursive: true });
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        profiles: {
+          build: {
+            lockFile: ".locks/build.lock",
+            timeout: 60000,
+            env: { FROM_PROFILE: "yes", SHARED: "profile" },
+          },
+        },
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("finds the closest config from a subdirectory", async () => {
+    expect(await findConfig(pkgDir)).toBe(configPath);
+
+    // A package.json with a "mutex-run" key closer by wins
+    await writeFile(
+      join(pkgDir, "package.json"),
+      JSON.stringify({ "mutex-run": { profiles: {} } }),
+    );
+    expect(await findConfig(pkgDir)).toBe(join(pkgDir, "package.json"));
+  });
+
+  it("ignores package.json files without a config", async () => {
+    await writeFile(join(pkgDir, "package.json"), JSON.stringify({}));
+    expect(await findConfig(pkgDir)).toBe(configPath);
+  });
+
+  it("resolves paths in a profile against the config file", async () => {
+    const profile = await loadProfile("build", { cwd: pkgDir });
+    expect(profile.lockFile).toEqual([join(root, ".locks/build.lock")]);
+    expect(profile.timeout).toBe(60000);
+  });
+
+  it("rejects unknown profiles and options", async () => {
+    await expect(loadProfile("deploy", { cwd: pkgDir })).rejects.toThrow(
+      ConfigError,
+    );
+
+    await writeFile(
+      configPath,
+      JSON.stringify({ profiles: { build: { timeuot: 5 } } }),
+    );
+    await expect(readConfig(configPath)).rejects.toThrow(
+      'Unknown option "timeuot" in profile "build"',
+    );
+  });
+
+  it("lets options override the profile", () => {
+    const merged = applyProfile(
+      { lockFile: "a.lock", timeout: 1000, wait: true, env: { A: "1" } },
+      { timeout: 5, wait: undefined, name: "b", env: { B: "2" } },
+    );
+    expect(merged).toEqual({
+      timeout: 5,
+      wait: true,
+      name: "b",
+      env: { A: "1", B: "2" },
+    });
+  });
+
+  it("runs commands with a profile", async () => {
+    const result = await mutexRun(
+      [
+        "node",
+        "-e",
+        "console.log(process.env.FROM_PROFILE, process.env.SHARED)",
+      ],
+      {
+        profile: "build",
+        configPath,
+        env: { SHARED: "option" },
+        stdio: "pipe",
+        wait: false,
+      },
+    );
+    expect(result.stdout).toBe("yes option");
+  });
+});
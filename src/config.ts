@@ -0,0 +1,198 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import type { MutexRunOptions } from "./mutex-run";
+
+/** Name of the standalone config file, looked up from cwd upwards */
+export const CONFIG_FILE = "mutex-run.config.json";
+
+/** Key holding the config in package.json */
+const PACKAGE_KEY = "mutex-run";
+
+const PROFILE_KEYS = [
+  "lockFile",
+  "name",
+  "nameFromCommand",
+  "concurrency",
+  "mode",
+  "fair",
+  "wait",
+  "timeout",
+  "maxWait",
+  "retryInterval",
+  "maxRetryInterval",
+  "backoffFactor",
+  "staleTimeout",
+  "staleCheck",
+  "runTimeout",
+  "killGracePeriod",
+  "cwd",
+  "env",
+  "shell",
+  "coalesce",
+  "skipIfFresh",
+  "history",
+  "outputPrefix",
+  "timestamps",
+  "teeFile",
+  "maxBuffer",
+] as const;
+
+const LOCK_KEYS = ["lockFile", "name", "nameFromCommand"] as const;
+
+/**
+ * Options a config profile can set (all plain JSON)
+ */
+export type ConfigProfile = Pick<
+  MutexRunOptions,
+  (typeof PROFILE_KEYS)[number]
+>;
+
+/**
+ * Contents of `mutex-run.config.json`, or of the `"mutex-run"` key in
+ * package.json
+ */
+export interface MutexRunConfig {
+  /**
+   * Named sets of options, applied with `--profile <name>`
+   */
+  profiles: Record<string, ConfigProfile>;
+}
+
+/**
+ * Thrown when a config file or profile is missing or invalid
+ */
+export class ConfigError extends Error {
+  override name = "ConfigError";
+
+  constructor(
+    message: string,
+    /** Config file the error is about, if one was found */
+    readonly configPath?: string,
+  ) {
+    super(configPath ? `${message} (in ${configPath})` : message);
+  }
+}
+
+/**
+ * Find the closest config: `mutex-run.config.json`, or a package.json with a
+ * `"mutex-run"` key, in cwd or any of its parents
+ *
+ * @returns Path of the file, or undefined if there is none
+ */
+export async function findConfig(cwd: string = process.cwd()) {
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    const configFile = join(dir, CONFIG_FILE);
+    if (existsSync(configFile)) return configFile;
+
+    const packageFile = join(dir, "package.json");
+    if (existsSync(packageFile)) {
+      const pkg = await readJson(packageFile).catch(() => undefined);
+      if (pkg?.[PACKAGE_KEY] !== undefined) return packageFile;
+    }
+
+    if (dirname(dir) === dir) return undefined;
+  }
+}
+
+/**
+ * Read and validate a config file (either kind, see findConfig)
+ *
+ * @throws ConfigError if the file can't be read or is not a valid config
+ */
+export async function readConfig(configPath: string): Promise<MutexRunConfig> {
+  let raw: any;
+  try {
+    raw = await readJson(configPath);
+  } catch (err) {
+    throw new ConfigError(`Cannot read config: ${err}`, configPath);
+  }
+  if (basename(configPath) === "package.json") raw = raw?.[PACKAGE_KEY];
+
+  if (!isObject(raw) || !isObject(raw.profiles)) {
+    throw new ConfigError('Config must have a "profiles" object', configPath);
+  }
+  for (const [name, profile] of Object.entries(raw.profiles)) {
+    if (!isObject(profile)) {
+      throw new ConfigError(`Profile "${name}" must be an object`, configPath);
+    }
+    for (const key of Object.keys(profile)) {
+      if (!(PROFILE_KEYS as readonly string[]).includes(key)) {
+        throw new ConfigError(
+          `Unknown option "${key}" in profile "${name}"`,
+          configPath,
+        );
+      }
+    }
+  }
+  return raw as unknown as MutexRunConfig;
+}
+
+/**
+ * Load a profile from the given config file, or the closest one to cwd.
+ * Relative lockFile and cwd paths in the profile are resolved against the
+ * config file's directory, so a profile means the same in every package.
+ *
+ * @throws ConfigError if there is no config or it has no such profile
+ */
+export async function loadProfile(
+  profile: string,
+  options: { configPath?: string; cwd?: string } = {},
+): Promise<ConfigProfile> {
+  const configPath = options.configPath
+    ? resolve(options.configPath)
+    : await findConfig(options.cwd);
+  if (!configPath) {
+    throw new ConfigError(
+      `No ${CONFIG_FILE} or package.json "${PACKAGE_KEY}" key found for profile "${profile}"`,
+    );
+  }
+
+  const config = await readConfig(configPath);
+  const found = Object.hasOwn(config.profiles, profile)
+    ? config.profiles[profile]
+    : undefined;
+  if (!found) {
+    throw new ConfigError(`Unknown profile "${profile}"`, configPath);
+  }
+
+  const base = dirname(configPath);
+  return {
+    ...found,
+    lockFile:
+      found.lockFile === undefined
+        ? undefined
+        : [found.lockFile].flat().map((file) => resolve(base, file)),
+    cwd: found.cwd === undefined ? undefined : resolve(base, found.cwd),
+  };
+}
+
+/**
+ * Layer options over a profile: options that are set win, env is merged.
+ * Which locks to take counts as one setting, so setting any of lockFile, name
+ * and nameFromCommand replaces all of the profile's.
+ */
+export function applyProfile<T extends MutexRunOptions>(
+  profile: ConfigProfile,
+  options: T,
+): T {
+  const merged: Record<string, unknown> = { ...profile };
+  if (LOCK_KEYS.some((key) => options[key] !== undefined)) {
+    for (const key of LOCK_KEYS) delete merged[key];
+  }
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) merged[key] = value;
+  }
+  if (profile.env && options.env) {
+    merged.env = { ...profile.env, ...options.env };
+  }
+  return merged as T;
+}
+
+async function readJson(path: string) {
+  return JSON.parse(await readFile(path, "utf8"));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
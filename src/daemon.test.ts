@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createConnection } from "node:net";
+import { rm } from "node:fs/promises";
+import { claimFromDaemon, startDaemon, type Daemon } from "./daemon";
+import { acquire, LockAcquisitionError, LockLostError } from "./lock";
+import { inspectLock } from "./inspect";
+import { createHolderInfo } from "./holder";
+import { mutexRun } from "./mutex-run";
+
+describe("daemon", () => {
+  const dir = "/tmp/mutex-run-test-daemon";
+  const socket = `${dir}/daemon.sock`;
+  const lockFile = `${dir}/build.lock`;
+  let daemon: Daemon;
+
+  beforeEach(async () => {
+    daemon = await startDaemon(socket);
+  });
+
+  afterEach(async () => {
+    await daemon.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("fails right away without waiting, naming the holder", async () => {
+    const lock = await acquire(lockFile, { socket, command: ["first"] });
+    try {
+      const error = await acquire(lockFile, { socket, wait: false }).catch(
+        (err) => err,
+      );
+      expect(error).toBeInstanceOf(LockAcquisitionError);
+      expect(error.holder).toMatchObject({
+        pid: process.pid,
+        command: ["first"],
+      });
+    } finally {
+      await lock.release();
+    }
+  });
+
+  it("gives up after the timeout", async () => {
+    const lock = await acquire(lockFile, { socket });
+    try {
+      const start = Date.now();
+      await expect(acquire(lockFile, { socket, timeout: 300 })).rejects.toThrow(
+        LockAcquisitionError,
+      );
+      expect(Date.now() - start).toBeGreaterThanOrEqual(250);
+
+      // The cancelled waiter no longer stands in line
+      expect((await inspectLock(lockFile, { socket })).waiting).toBe(0);
+    } finally {
+      await lock.release();
+    }
+  });
+
+  it("keeps waiting for a deadline further out than a timer can wait", async () => {
+    const lock = await acquire(lockFile, { socket });
+    try {
+      const error = await claimFromDaemon(
+        socket,
+        {
+          lockPath: lockFile,
+          concurrency: 1,
+          mode: "exclusive",
+          wait: true,
+          holder: await createHolderInfo(["second"]),
+        },
+        {
+          deadline: Date.now() + 30 * 86_400_000,
+          signal: AbortSignal.timeout(300),
+        },
+      ).catch((err) => err);
+      expect(error.name).toBe("TimeoutError");
+    } finally {
+      await lock.release();
+    }
+  });
+
+  it("hands the lock to waiters in order the moment it is released", async () => {
+    const first = await acquire(lockFile, { socket });
+    const order: number[] = [];
+    const waiters = [1, 2, 3].map(async (n) => {
+      // Queue up one after the other
+      await new Promise((resolve) => setTimeout(resolve, n * 50));
+      const lock = await acquire(lockFile, { socket });
+      order.push(n);
+      await lock.release();
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const releasedAt = Date.now();
+    await first.release();
+    await Promise.all(waiters);
+
+    expect(order).toEqual([1, 2, 3]);
+    expect(Date.now() - releasedAt).toBeLessThan(500);
+  });
+
+  it("releases the locks of a client whose connection drops", async () => {
+    const conn = createConnection(socket);
+    const holder = await createHolderInfo(["crashed"]);
+    conn.write(
+      `${JSON.stringify({
+        type: "acquire",
+        id: 1,
+        lockPath: lockFile,
+        concurrency: 1,
+        mode: "exclusive",
+        wait: true,
+        holder,
+      })}\n`,
+    );
+    await new Promise((resolve) => conn.once("data", resolve));
+    expect((await inspectLock(lockFile, { socket })).held).toBe(true);
+
+    conn.destroy();
+    const lock = await acquire(lockFile, { socket, timeout: 1000 });
+    await lock.release();
+  });
+
+  it("reports locks lost along with the daemon", async () => {
+    const lock = await acquire(lockFile, { socket });
+    await daemon.close();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(lock.signal.reason).toBeInstanceOf(LockLostError);
+    await lock.release();
+  });
+
+  it("serves semaphore slots and shared holders", async () => {
+    const slots = await Promise.all([
+      acquire(lockFile, { socket, concurrency: 2 }),
+      acquire(lockFile, { socket, concurrency: 2 }),
+    ]);
+    expect(slots.map((lock) => lock.slot).sort()).toEqual([0, 1]);
+    await expect(
+      acquire(lockFile, { socket, concurrency: 2, wait: false }),
+    ).rejects.toThrow(LockAcquisitionError);
+    await Promise.all(slots.map((lock) => lock.release()));
+
+    const readers = await Promise.all([
+      acquire(lockFile, { socket, mode: "shared" }),
+      acquire(lockFile, { socket, mode: "shared" }),
+    ]);
+    expect((await inspectLock(lockFile, { socket })).readers).toBe(2);
+    await expect(acquire(lockFile, { socket, wait: false })).rejects.toThrow(
+      LockAcquisitionError,
+    );
+    await Promise.all(readers.map((lock) => lock.release()));
+  });
+
+  it("runs commands under the lock, passing the socket on", async () => {
+    const result = await mutexRun(
+      ["node", "-e", "console.log(process.env.MUTEX_RUN_SOCKET)"],
+      { lockFile, socket, wait: false, stdio: "pipe" },
+    );
+    expect(result.stdout).toBe(socket);
+    expect((await inspectLock(lockFile, { socket })).held).toBe(false);
+  });
+
+  it("refuses to start twice on the same socket", async () => {
+    await expect(startDaemon(socket)).rejects.toThrow(/already listening/);
+  });
+});
@@ -0,0 +1,533 @@
+import { createConnection, createServer, type Socket } from "node:net";
+import { chmod, mkdir, unlink } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { lockDir } from "./names";
+import { lockedError } from "./semaphore";
+import type { HolderInfo } from "./holder";
+import { MAX_DURATION } from "./utils";
+
+// File locks are polled, so on a busy machine waiters notice a release late
+// and race each other for it. The daemon keeps lock state in memory instead
+// and serves it over a Unix socket: waiters queue in order, the next one is
+// told the moment a lock is released, and a client whose connection drops
+// (e.g. because it crashed) loses its locks at once. The protocol is one JSON
+// message per line; each lock is taken over its own connection.
+
+/** Environment variable naming the daemon's socket; unset = lock files. */
+export const SOCKET_ENV = "MUTEX_RUN_SOCKET";
+
+type Mode = "shared" | "exclusive";
+
+type Request =
+  | {
+      type: "acquire";
+      id: number;
+      lockPath: string;
+      concurrency: number;
+      mode: Mode;
+      wait: boolean;
+      holder: HolderInfo;
+    }
+  | { type: "release"; id: number }
+  | { type: "cancel"; id: number }
+  | { type: "status"; id: number; lockPath: string };
+
+type Response =
+  | { type: "granted"; id: number; slot: number; holder: HolderInfo }
+  | {
+      type: "waiting";
+      id: number;
+      position: number;
+      length: number;
+      holder?: HolderInfo;
+    }
+  | { type: "busy"; id: number }
+  | { type: "released"; id: number }
+  | { type: "status"; id: number; status: DaemonLockStatus }
+  | { type: "error"; id: number; message: string };
+
+/**
+ * State of a lock as the daemon sees it
+ */
+export interface DaemonLockStatus {
+  /** Records of all current holders, longest-running first */
+  holders: HolderInfo[];
+  /** Number of exclusive holders (semaphore slots held) */
+  slots: number;
+  /** Number of shared holders */
+  readers: number;
+  /** Number of waiters in the queue */
+  waiting: number;
+}
+
+/**
+ * A lock claimed through the daemon
+ */
+export interface DaemonClaim {
+  slot: number;
+  /** Holder record as the daemon keeps it, stamped with the grant time */
+  holder: HolderInfo;
+  /** Aborted if the connection drops before the lock is released */
+  signal: AbortSignal;
+  /** Release the lock. Safe to call more than once. */
+  release(): Promise<void>;
+}
+
+/**
+ * A running daemon
+ */
+export interface Daemon {
+  /** Absolute path of the socket it listens on */
+  socketPath: string;
+  /** Stop listening, drop all clients and remove the socket. */
+  close(): Promise<void>;
+}
+
+/** What a client asked for, over which connection */
+interface Entry {
+  conn: Socket;
+  id: number;
+}
+
+interface Grant extends Entry {
+  slot: number;
+  mode: Mode;
+  holder: HolderInfo;
+}
+
+interface Waiter extends Entry {
+  mode: Mode;
+  concurrency: number;
+  holder: HolderInfo;
+}
+
+interface LockState {
+  grants: Grant[];
+  queue: Waiter[];
+}
+
+/**
+ * Socket of the daemon: `$MUTEX_RUN_SOCKET`, else `daemon.sock` in the lock
+ * directory (see lockDir)
+ */
+export function defaultSocketPath(env: NodeJS.ProcessEnv = process.env) {
+  return env[SOCKET_ENV]
+    ? resolve(env[SOCKET_ENV])
+    : join(lockDir(env), "daemon.sock");
+}
+
+/**
+ * Start a lock daemon listening on a Unix socket. Only the current user can
+ * connect to it.
+ *
+ * @throws Error if another daemon is listening on the socket already
+ */
+export async function startDaemon(
+  socketPath: string = defaultSocketPath(),
+  options: { logger?: { log(...args: any[]): void } } = {},
+): Promise<Daemon> {
+  const path = resolve(socketPath);
+  const log = options.logger?.log.bind(options.logger) ?? (() => {});
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+
+  // A socket file nobody listens on is left over from a daemon that died
+  if (await isListening(path)) {
+    throw new Error(`A mutex-run daemon is already listening on ${path}`);
+  }
+  await unlink(path).catch(() => {});
+
+  const locks = new Map<string, LockState>();
+  const conns = new Set<Socket>();
+
+  const send = (conn: Socket, response: Response) => {
+    if (!conn.destroyed) conn.write(`${JSON.stringify(response)}\n`);
+  };
+
+  const canGrant = (state: LockState, waiter: Waiter) =>
+    waiter.mode === "shared"
+      ? state.grants.every((grant) => grant.mode === "shared")
+      : state.grants.every((grant) => grant.mode === "exclusive") &&
+        state.grants.length < waiter.concurrency;
+
+  const grant = (lockPath: string, state: LockState, waiter: Waiter) => {
+    let slot = 0;
+    if (waiter.mode === "exclusive") {
+      while (state.grants.some((held) => held.slot === slot)) slot++;
+    }
+    const holder = { ...waiter.holder, startedAt: new Date().toISOString() };
+    state.grants.push({ ...waiter, slot, holder });
+    log(`granted ${lockPath} (slot ${slot}) to pid ${holder.pid}`);
+    send(waiter.conn, { type: "granted", id: waiter.id, slot, holder });
+  };
+
+  // Hand the lock to waiters in order, stopping at the first that has to
+  // wait, so that a waiting exclusive holder blocks later shared ones
+  const pump = (lockPath: string) => {
+    const state = locks.get(lockPath);
+    if (!state) return;
+    while (state.queue[0] && canGrant(state, state.queue[0])) {
+      grant(lockPath, state, state.queue.shift()!);
+    }
+
+    const holder = oldestHolder(state);
+    for (const [i, waiter] of state.queue.entries()) {
+      send(waiter.conn, {
+        type: "waiting",
+        id: waiter.id,
+        position: i + 1,
+        length: state.queue.length,
+        holder,
+      });
+    }
+    if (state.grants.length === 0 && state.queue.length === 0) {
+      locks.delete(lockPath);
+    }
+  };
+
+  const handle = (conn: Socket, request: Request) => {
+    switch (request.type) {
+      case "acquire": {
+        const state = locks.get(request.lockPath) ?? { grants: [], queue: [] };
+        locks.set(request.lockPath, state);
+        const waiter = { ...request, conn };
+        if (state.queue.length === 0 && canGrant(state, waiter)) {
+          grant(request.lockPath, state, waiter);
+        } else if (request.wait) {
+          state.queue.push(waiter);
+          pump(request.lockPath);
+        } else {
+          send(conn, { type: "busy", id: request.id });
+          pump(request.lockPath);
+        }
+        break;
+      }
+      case "release":
+      case "cancel": {
+        for (const [lockPath, state] of locks) {
+          const owned = (held: Entry) =>
+            held.conn === conn && held.id === request.id;
+          const granted = state.grants.some(owned);
+          const queued = state.queue.some(owned);
+          if (!granted && !queued) continue;
+
+          state.grants = state.grants.filter((held) => !owned(held));
+          state.queue = state.queue.filter((waiter) => !owned(waiter));
+          if (granted) log(`released ${lockPath}`);
+          pump(lockPath);
+        }
+        // A cancelled waiter may have been granted the lock meanwhile; it is
+        // given up all the same, and the waiter hears about the grant first
+        send(conn, {
+          type: request.type === "release" ? "released" : "busy",
+          id: request.id,
+        });
+        break;
+      }
+      case "status": {
+        const state = locks.get(request.lockPath);
+        const grants = state?.grants ?? [];
+        send(conn, {
+          type: "status",
+          id: request.id,
+          status: {
+            holders: grants
+              .map((held) => held.holder)
+              .sort(
+                (a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt),
+              ),
+            slots: grants.filter((held) => held.mode === "exclusive").length,
+            readers: grants.filter((held) => held.mode === "shared").length,
+            waiting: state?.queue.length ?? 0,
+          },
+        });
+        break;
+      }
+    }
+  };
+
+  // Whatever a client held or waited for is given up with its connection
+  const disconnect = (conn: Socket) => {
+    conns.delete(conn);
+    for (const [lockPath, state] of locks) {
+      const before = state.grants.length;
+      state.grants = state.grants.filter((held) => held.conn !== conn);
+      state.queue = state.queue.filter((waiter) => waiter.conn !== conn);
+      if (state.grants.length < before) {
+        log(`released ${lockPath} (client disconnected)`);
+      }
+      pump(lockPath);
+    }
+  };
+
+  const server = createServer((conn) => {
+    conns.add(conn);
+    readMessages(conn, (message: Request) => {
+      try {
+        handle(conn, message);
+      } catch (err) {
+        send(conn, {
+          type: "error",
+          id: message?.id ?? 0,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    });
+    conn.on("error", () => {});
+    conn.on("close", () => disconnect(conn));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(path, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  await chmod(path, 0o600);
+
+  return {
+    socketPath: path,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const conn of conns) conn.destroy();
+        // The server removes the socket file once it has closed
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/**
+ * Claim a lock through the daemon, waiting in its queue unless `wait` is
+ * false. Rejects with an ELOCKED error like lock files do when the lock is
+ * held (without waiting) or the deadline passes, or with the signal's reason
+ * once it aborts.
+ *
+ * @param socketPath - Socket of the daemon
+ * @param request.lockPath - Absolute path of the lock
+ * @param options.deadline - Time (as Date.now()) after which to give up;
+ *   Infinity waits forever
+ * @throws Error if the daemon cannot be reached
+ */
+export async function claimFromDaemon(
+  socketPath: string,
+  request: {
+    lockPath: string;
+    concurrency: number;
+    mode: Mode;
+    wait: boolean;
+    holder: HolderInfo;
+  },
+  options: {
+    deadline: number;
+    signal?: AbortSignal;
+    onHolder?: (holder: HolderInfo) => void;
+    onQueue?: (position: number, length: number) => void;
+  },
+): Promise<DaemonClaim> {
+  options.signal?.throwIfAborted();
+  const conn = await connect(socketPath);
+  const id = 1;
+  const send = (message: Request) => {
+    if (!conn.destroyed) conn.write(`${JSON.stringify(message)}\n`);
+  };
+
+  // Replies go to whoever waits on the connection: the claim, then release
+  let onReply: (message: Response) => void = () => {};
+  readMessages(conn, (message: Response) => onReply(message));
+
+  let released: Promise<void> | undefined;
+  const release = () =>
+    (released ??= new Promise<void>((resolve) => {
+      if (conn.destroyed) return resolve();
+      conn.ref();
+      conn.once("close", () => resolve());
+      onReply = (message) => {
+        if (message.type === "released") conn.end();
+      };
+      send({ type: "release", id });
+    }));
+
+  return new Promise<DaemonClaim>((resolve, reject) => {
+    // Why we gave up, once we asked the daemon to take us out of the queue
+    let cancelled: unknown;
+    const cancel = (reason: unknown) => {
+      if (cancelled !== undefined) return;
+      cancelled = reason;
+      send({ type: "cancel", id });
+    };
+
+    const onAbort = () => cancel(options.signal!.reason);
+    options.signal?.addEventListener("abort", onAbort);
+    // A timer fires right away when asked to wait longer than MAX_DURATION,
+    // so far deadlines are waited for in steps
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const waitForDeadline = () => {
+      const remaining = options.deadline - Date.now();
+      timer = setTimeout(
+        () =>
+          remaining > MAX_DURATION
+            ? waitForDeadline()
+            : cancel(lockedError(request.lockPath)),
+        Math.min(Math.max(remaining, 0), MAX_DURATION),
+      );
+    };
+    if (request.wait && options.deadline < Infinity) waitForDeadline();
+
+    // Report the holder as often as polling for file locks would
+    let holder: HolderInfo | undefined;
+    const holderTimer = setInterval(() => {
+      if (holder) options.onHolder?.(holder);
+    }, 1000);
+
+    const onClose = () => {
+      settle();
+      reject(new Error("Lost the connection to the mutex-run daemon"));
+    };
+    conn.on("close", onClose);
+
+    const settle = () => {
+      options.signal?.removeEventListener("abort", onAbort);
+      clearTimeout(timer);
+      clearInterval(holderTimer);
+      conn.off("close", onClose);
+      onReply = () => {};
+    };
+
+    onReply = (message) => {
+      switch (message.type) {
+        case "waiting":
+          options.onQueue?.(message.position, message.length);
+          if (message.holder) {
+            holder = message.holder;
+            options.onHolder?.(holder);
+          }
+          break;
+        case "granted":
+          settle();
+          if (cancelled !== undefined) {
+            // Granted while we were cancelling: don't keep what nobody wants
+            void release().then(() => reject(cancelled));
+          } else {
+            // The lock must not keep the process alive on its own
+            conn.unref();
+            // The daemon lets go of our locks along with the connection
+            const lost = new AbortController();
+            conn.once("close", () => {
+              if (!released) {
+                lost.abort(
+                  new Error("Lost the connection to the mutex-run daemon"),
+                );
+              }
+            });
+            resolve({
+              slot: message.slot,
+              holder: message.holder,
+              signal: lost.signal,
+              release,
+            });
+          }
+          break;
+        case "busy":
+          settle();
+          conn.end();
+          reject(cancelled ?? lockedError(request.lockPath));
+          break;
+        case "error":
+          settle();
+          conn.end();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    send({ type: "acquire", id, ...request });
+  });
+}
+
+/**
+ * Ask the daemon about a lock
+ *
+ * @param lockPath - Absolute path of the lock
+ * @throws Error if the daemon cannot be reached
+ */
+export async function daemonStatus(
+  socketPath: string,
+  lockPath: string,
+): Promise<DaemonLockStatus> {
+  const conn = await connect(socketPath);
+  return new Promise((resolve, reject) => {
+    readMessages(conn, (message: Response) => {
+      conn.end();
+      if (message.type === "status") {
+        resolve(message.status);
+      } else {
+        reject(new Error(`Unexpected reply from the mutex-run daemon`));
+      }
+    });
+    conn.on("close", () =>
+      reject(new Error("Lost the connection to the mutex-run daemon")),
+    );
+    conn.write(
+      `${JSON.stringify({ type: "status", id: 1, lockPath } satisfies Request)}\n`,
+    );
+  });
+}
+
+/** Connect to the daemon, explaining failures in terms of the daemon. */
+function connect(socketPath: string) {
+  return new Promise<Socket>((resolve, reject) => {
+    const conn = createConnection(socketPath);
+    conn.once("connect", () => {
+      conn.off("error", onError);
+      conn.on("error", () => {
+        // Surfaces as "close"
+      });
+      resolve(conn);
+    });
+    const onError = (err: Error) =>
+      reject(
+        new Error(
+          `Cannot reach the mutex-run daemon at ${socketPath}: ${err.message}`,
+          { cause: err },
+        ),
+      );
+    conn.once("error", onError);
+  });
+}
+
+/** Whether a daemon answers on the socket. */
+async function isListening(socketPath: string) {
+  try {
+    (await connect(socketPath)).destroy();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Call `onMessage` for every JSON line received, ignoring broken ones. */
+function readMessages<T>(conn: Socket, onMessage: (message: T) => void) {
+  let buffer = "";
+  conn.setEncoding("utf8");
+  conn.on("data", (chunk: string) => {
+    buffer += chunk;
+    let newline;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      let message: T;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      onMessage(message);
+    }
+  });
+}
+
+function oldestHolder(state: LockState) {
+  return state.grants
+    .map((held) => held.holder)
+    .sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt))[0];
+}
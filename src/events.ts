@@ -0,0 +1,136 @@
+import type { HolderInfo } from "./holder";
+
+/** Fields every event has */
+interface BaseEvent {
+  /** When the event happened (ISO 8601) */
+  time: string;
+}
+
+/** Started waiting for the locks of a run */
+export interface WaitStartEvent extends BaseEvent {
+  type: "wait-start";
+  /** Absolute paths of all locks, in lock order */
+  lockPaths: string[];
+  command: string[];
+}
+
+/** Moved through the fair queue (fair mode only) */
+export interface QueuedEvent extends BaseEvent {
+  type: "queued";
+  /** 1-based position in the queue */
+  position: number;
+  /** Number of waiters in the queue */
+  length: number;
+}
+
+/**
+ * Still waiting on a holder. Sent when the holder changes, and every
+ * STILL_WAITING_INTERVAL while it stays the same.
+ */
+export interface StillWaitingEvent extends BaseEvent {
+  type: "still-waiting";
+  /** Lock the holder holds */
+  lockPath: string;
+  holder: HolderInfo;
+  /** Milliseconds waited so far */
+  waitedMs: number;
+}
+
+/** All locks were acquired */
+export interface AcquiredEvent extends BaseEvent {
+  type: "acquired";
+  lockPaths: string[];
+  /** Semaphore slot claimed in the first lock */
+  slot: number;
+  /** Milliseconds spent waiting */
+  waitedMs: number;
+  /** Locks that were not taken because an ancestor run holds them */
+  inherited?: string[];
+}
+
+/** The command was not run because the last successful run is fresh */
+export interface SkippedEvent extends BaseEvent {
+  type: "skipped";
+}
+
+/** The command was not run because an identical run finished meanwhile */
+export interface CoalescedEvent extends BaseEvent {
+  type: "coalesced";
+  /** Exit code of the identical run */
+  exitCode: number;
+}
+
+/** The command was started */
+export interface ChildStartEvent extends BaseEvent {
+  type: "child-start";
+  command: string[];
+  pid?: number;
+}
+
+/** The command exited */
+export interface ChildExitEvent extends BaseEvent {
+  type: "child-exit";
+  exitCode: number;
+  /** Signal that terminated the command, if any (not set when timed out) */
+  signal?: NodeJS.Signals;
+  /** Whether the command was killed for exceeding runTimeout */
+  timedOut?: boolean;
+  /** Milliseconds the command ran */
+  durationMs: number;
+}
+
+/** The locks were released */
+export interface ReleasedEvent extends BaseEvent {
+  type: "released";
+  lockPaths: string[];
+  /** Milliseconds the locks were held */
+  heldMs: number;
+}
+
+/** The run failed (mutexRun rejects with this error) */
+export interface ErrorEvent extends BaseEvent {
+  type: "error";
+  /** Error class name, e.g. "LockAcquisitionError" */
+  name: string;
+  message: string;
+  /** Lock the error is about, if any */
+  lockPath?: string;
+}
+
+/**
+ * Something that happened during a mutexRun call, see
+ * MutexRunOptions.onEvent. Events are plain JSON.
+ */
+export type MutexRunEvent =
+  | WaitStartEvent
+  | QueuedEvent
+  | StillWaitingEvent
+  | AcquiredEvent
+  | SkippedEvent
+  | CoalescedEvent
+  | ChildStartEvent
+  | ChildExitEvent
+  | ReleasedEvent
+  | ErrorEvent;
+
+/** How often still-waiting is repeated while the holder stays the same. */
+export const STILL_WAITING_INTERVAL = 10000;
+
+// Omit the time of each event type separately, keeping the union discriminated
+type WithoutTime<E> = E extends MutexRunEvent ? Omit<E, "time"> : never;
+
+/**
+ * Build an emit function for a listener that stamps each event with the
+ * current time. A throwing listener must not break the run, so its errors
+ * are ignored.
+ */
+export function eventEmitter(onEvent?: (event: MutexRunEvent) => void) {
+  return (event: WithoutTime<MutexRunEvent>) => {
+    if (!onEvent) return;
+    try {
+      onEvent({ time: new Date().toISOString(), ...event } as MutexRunEvent);
+    } catch {
+      // Listener errors are the listener's business
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { fingerprint, isFresh } from "./fresh";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+
+describe("fingerprint", () => {
+  const dir = "/tmp/mutex-run-test-fresh";
+
+  beforeEach(async () => {
+    await mkdir(`${dir}/src`, { recursive: true });
+    await writeFile(`${dir}/src/a.ts`, "a");
+    await writeFile(`${dir}/src/b.ts`, "b");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("is stable for unchanged inputs", async () => {
+    const opts = { inputs: ["src/**/*.ts"] };
+    expect(await fingerprint(["build"], dir, opts)).toBe(
+      await fingerprint(["build"], dir, opts),
+    );
+  });
+
+  it("changes when an input file changes", async () => {
+    const opts = { inputs: ["src/**/*.ts"] };
+    const before = await fingerprint(["build"], dir, opts);
+    await writeFile(`${dir}/src/b.ts`, "changed");
+    expect(await fingerprint(["build"], dir, opts)).not.toBe(before);
+  });
+
+  it("changes with the command and key", async () => {
+    const base = await fingerprint(["build"], dir, { key: "abc" });
+    expect(await fingerprint(["test"], dir, { key: "abc" })).not.toBe(base);
+    expect(await fingerprint(["build"], dir, { key: "def" })).not.toBe(base);
+  });
+});
+
+describe("isFresh", () => {
+  const run = { fingerprint: "f", finishedAt: "2025-01-01T00:00:00.000Z" };
+  const finished = Date.parse(run.finishedAt);
+
+  it("requires a matching fingerprint", () => {
+    expect(isFresh(run, "f", 0, finished)).toBe(true);
+    expect(isFresh(run, "g", 0, finished)).toBe(false);
+    expect(isFresh(undefined, "f", 0, finished)).toBe(false);
+  });
+
+  it("expires after the TTL", () => {
+    expect(isFresh(run, "f", 1000, finished + 500)).toBe(true);
+    expect(isFresh(run, "f", 1000, finished + 1500)).toBe(false);
+  });
+});
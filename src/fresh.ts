@@ -0,0 +1,108 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { glob } from "tinyglobby";
+import type { Duration } from "./utils";
+
+/**
+ * Options for skipping runs whose inputs have not changed
+ */
+export interface SkipIfFreshOptions {
+  /**
+   * Globs (relative to cwd) of the files the command depends on. Their paths
+   * and contents are part of the fingerprint.
+   */
+  inputs?: string[];
+
+  /**
+   * Explicit key that is part of the fingerprint, e.g. a commit SHA
+   */
+  key?: string;
+
+  /**
+   * How long a successful run stays fresh (0 = forever); milliseconds or a
+   * duration such as "1h"
+   * @default 0
+   */
+  ttl?: Duration;
+}
+
+/**
+ * The last successful run recorded under a lock
+ */
+export interface LastRun {
+  /**
+   * Fingerprint of the command and its inputs
+   */
+  fingerprint: string;
+
+  /**
+   * When the run finished (ISO 8601)
+   */
+  finishedAt: string;
+}
+
+/** Path of the last-run record that sits next to a lock file. */
+export function lastRunPath(lockPath: string) {
+  return `${lockPath}.last-run.json`;
+}
+
+/**
+ * Hash the command, working directory, key and the input files matched by the
+ * globs into a fingerprint.
+ */
+export async function fingerprint(
+  command: string[],
+  cwd: string,
+  opts: SkipIfFreshOptions,
+) {
+  const hash = createHash("sha256");
+  hash.update(JSON.stringify([command, resolve(cwd), opts.key ?? null]));
+
+  const files = opts.inputs?.length
+    ? await glob(opts.inputs, { cwd, dot: true, onlyFiles: true })
+    : [];
+  for (const file of files.sort()) {
+    hash.update(`\0${file}\0`);
+    for await (const chunk of createReadStream(resolve(cwd, file))) {
+      hash.update(chunk);
+    }
+  }
+
+  return hash.digest("hex");
+}
+
+/** Read the last successful run recorded under a lock, if any. */
+export async function readLastRun(
+  lockPath: string,
+): Promise<LastRun | undefined> {
+  try {
+    const raw = JSON.parse(await readFile(lastRunPath(lockPath), "utf8"));
+    return typeof raw?.fingerprint === "string" &&
+      typeof raw.finishedAt === "string"
+      ? (raw as LastRun)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Record a successful run under a lock. */
+export async function writeLastRun(lockPath: string, run: LastRun) {
+  const path = lastRunPath(lockPath);
+  // Write-then-rename so readers never see a half-written record
+  await writeFile(`${path}.${process.pid}.tmp`, JSON.stringify(run));
+  await rename(`${path}.${process.pid}.tmp`, path);
+}
+
+/** Whether a recorded run matches the fingerprint and is within the TTL. */
+export function isFresh(
+  run: LastRun | undefined,
+  fingerprint: string,
+  ttl: number,
+  now: number = Date.now(),
+) {
+  if (!run || run.fingerprint !== fingerprint) return false;
+  return ttl <= 0 || now - Date.parse(run.finishedAt) <= ttl;
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  appendHistory,
+  historyPath,
+  historyStats,
+  readHistory,
+  MAX_HISTORY_SIZE,
+  type HistoryRecord,
+} from "./history";
+import { mutexRun } from "./mutex-run";
+import { appendFile, mkdir, rm, stat, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+
+function record(overrides: Partial<HistoryRecord> = {}): HistoryRecord {
+  return {
+    startedAt: new Date().toISOString(),
+    waitedMs: 0,
+    heldMs: 1000,
+    acquired: true,
+    outcome: "ran",
+    exitCode: 0,
+    command: ["pnpm", "build"],
+    cwd: "/repo",
+    hostname: "runner-1",
+    ...overrides,
+  };
+}
+
+describe("history", () => {
+  const dir = "/tmp/mutex-run-test-history";
+  const lockFile = `${dir}/build.lock`;
+
+  beforeEach(async () => {
+    await mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records runs of mutexRun with history enabled", async () => {
+    await mutexRun(["node", "-e", "process.exit(2)"], {
+      lockFile,
+      history: true,
+    });
+    await mutexRun(["echo", "no history"], { lockFile });
+
+    const records = await readHistory(lockFile);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      acquired: true,
+      outcome: "ran",
+      exitCode: 2,
+      command: ["node", "-e", "process.exit(2)"],
+    });
+    expect(records[0]!.heldMs).toBeGreaterThan(0);
+  });
+
+  it("records runs that did not get the lock", async () => {
+    const holder = mutexRun(["sleep", "1"], { lockFile, wait: false });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    await mutexRun(["echo", "test"], {
+      lockFile,
+      history: true,
+      maxWait: "200ms",
+    }).catch(() => {});
+    await holder;
+
+    const [failed] = await readHistory(lockFile);
+    expect(failed).toMatchObject({ acquired: false, outcome: "failed" });
+    expect(failed!.waitedMs).toBeGreaterThanOrEqual(200);
+  });
+
+  it("filters by start time and skips broken lines", async () => {
+    const old = record({ startedAt: "2020-01-01T00:00:00.000Z" });
+    await appendHistory(lockFile, old);
+    await appendFile(historyPath(lockFile), '{"startedAt": "2026-\n');
+    await appendHistory(lockFile, record());
+
+    expect(await readHistory(lockFile)).toHaveLength(2);
+    expect(
+      await readHistory(lockFile, { since: Date.now() - 60000 }),
+    ).toHaveLength(1);
+  });
+
+  it("rotates the history once it is too large", async () => {
+    await writeFile(historyPath(lockFile), "x".repeat(MAX_HISTORY_SIZE));
+    await appendHistory(lockFile, record());
+
+    expect(existsSync(`${historyPath(lockFile)}.1`)).toBe(true);
+    expect((await stat(historyPath(lockFile))).size).toBeLessThan(1000);
+    expect(await readHistory(lockFile)).toHaveLength(1);
+  });
+});
+
+describe("historyStats", () => {
+  it("summarizes wait times, failures and holders", () => {
+    const records = [
+      ...Array.from({ length: 18 }, (_, i) => record({ waitedMs: i * 100 })),
+      record({ waitedMs: 60000, exitCode: 1 }),
+      record({
+        waitedMs: 120000,
+        heldMs: 0,
+        acquired: false,
+        outcome: "failed",
+        exitCode: undefined,
+        command: ["pnpm", "deploy"],
+      }),
+    ];
+
+    const stats = historyStats(records);
+    expect(stats.runs).toBe(20);
+    expect(stats.wait.p50).toBe(900);
+    expect(stats.wait.p95).toBe(60000);
+    expect(stats.wait.max).toBe(120000);
+    expect(stats.hold.total).toBe(19000);
+    expect(stats.commandFailures).toBe(1);
+    expect(stats.notAcquired).toBe(1);
+    expect(stats.failureRate).toBe(0.1);
+    expect(stats.topHolders).toEqual([
+      {
+        command: ["pnpm", "build"],
+        hostname: "runner-1",
+        runs: 19,
+        heldMs: 19000,
+      },
+    ]);
+  });
+
+  it("handles an empty history", () => {
+    const stats = historyStats([]);
+    expect(stats.runs).toBe(0);
+    expect(stats.wait.p95).toBe(0);
+    expect(stats.failureRate).toBe(0);
+  });
+});
@@ -0,0 +1,331 @@
+import lockfile from "proper-lockfile";
+import { hostname } from "node:os";
+import { appendFile, readFile, rename, stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import { currentUser } from "./holder";
+import type { MutexRunEvent } from "./events";
+
+/** Once the history grows past this size it is rotated to `<history>.1`. */
+export const MAX_HISTORY_SIZE = 1024 * 1024; // 1 MiB
+
+/**
+ * What became of a run:
+ *
+ * - "ran": the command ran (see exitCode)
+ * - "skipped": its inputs were unchanged (see skipIfFresh)
+ * - "coalesced": an identical run finished meanwhile (see coalesce)
+ * - "failed": mutexRun threw, e.g. because the lock could not be acquired
+ */
+export type RunOutcome = "ran" | "skipped" | "coalesced" | "failed";
+
+/**
+ * One mutexRun call, as recorded in the history next to a lock
+ */
+export interface HistoryRecord {
+  /**
+   * When the run started waiting for the lock (ISO 8601)
+   */
+  startedAt: string;
+
+  /**
+   * Milliseconds spent waiting for the lock
+   */
+  waitedMs: number;
+
+  /**
+   * Milliseconds the lock was held (0 if it never was)
+   */
+  heldMs: number;
+
+  /**
+   * Whether the lock was acquired
+   */
+  acquired: boolean;
+
+  outcome: RunOutcome;
+
+  /**
+   * Exit code of the command, or of the identical run when coalesced
+   */
+  exitCode?: number;
+
+  command: string[];
+  cwd: string;
+  hostname: string;
+  user?: string;
+}
+
+/**
+ * Summary of the history of a lock
+ */
+export interface HistoryStats {
+  /**
+   * Number of runs
+   */
+  runs: number;
+
+  /**
+   * Start of the first and last run (ISO 8601), if there were any
+   */
+  first?: string;
+  last?: string;
+
+  /**
+   * Time spent waiting for the lock, in milliseconds
+   */
+  wait: { p50: number; p95: number; max: number; total: number };
+
+  /**
+   * Time the lock was held by runs that got it, in milliseconds
+   */
+  hold: { p50: number; p95: number; max: number; total: number };
+
+  /**
+   * Runs whose command exited with a non-zero code
+   */
+  commandFailures: number;
+
+  /**
+   * Runs that never got the lock (and did not coalesce)
+   */
+  notAcquired: number;
+
+  /**
+   * Share of runs that failed either way (0-1)
+   */
+  failureRate: number;
+
+  /**
+   * Most frequent commands and hosts, by number of runs
+   */
+  topHolders: {
+    command: string[];
+    hostname: string;
+    runs: number;
+    heldMs: number;
+  }[];
+}
+
+/** Path of the history that sits next to a lock file. */
+export function historyPath(lockPath: string) {
+  return `${resolve(lockPath)}.history.ndjson`;
+}
+
+/**
+ * Append a record to the history of a lock, rotating the history first when
+ * it has grown past MAX_HISTORY_SIZE. Only the current and one rotated file
+ * are kept.
+ */
+export async function appendHistory(lockPath: string, record: HistoryRecord) {
+  const path = historyPath(lockPath);
+  const size = await stat(path).then(
+    (stats) => stats.size,
+    () => 0,
+  );
+  if (size >= MAX_HISTORY_SIZE) await rotateHistory(path);
+  // Each record is a single appended line, so concurrent runs don't mix
+  await appendFile(path, `${JSON.stringify(record)}\n`);
+}
+
+/**
+ * Move a full history to `<history>.1`. Runs rotate one at a time, each
+ * checking the size again, so a history that was just rotated is not rotated
+ * once more over the full one.
+ */
+async function rotateHistory(path: string) {
+  let release: () => Promise<void>;
+  try {
+    release = await lockfile.lock(path, {
+      realpath: false,
+      lockfilePath: `${path}.rotating`,
+      retries: { retries: 20, minTimeout: 10, maxTimeout: 100 },
+    });
+  } catch {
+    // Could not rotate; the history just grows a little longer
+    return;
+  }
+
+  try {
+    const size = await stat(path).then(
+      (stats) => stats.size,
+      () => 0,
+    );
+    if (size >= MAX_HISTORY_SIZE) await rename(path, `${path}.1`);
+  } finally {
+    await release().catch(() => {});
+  }
+}
+
+/**
+ * Read the history of a lock, oldest first
+ *
+ * @param options.since - Only return runs started at or after this time
+ *   (milliseconds since the epoch)
+ */
+export async function readHistory(
+  lockPath: string,
+  options: { since?: number } = {},
+): Promise<HistoryRecord[]> {
+  const path = historyPath(lockPath);
+  const records: HistoryRecord[] = [];
+  for (const file of [`${path}.1`, path]) {
+    const content = await readFile(file, "utf8").catch(() => "");
+    for (const line of content.split("\n")) {
+      const record = parseRecord(line);
+      if (
+        record &&
+        (options.since === undefined ||
+          Date.parse(record.startedAt) >= options.since)
+      ) {
+        records.push(record);
+      }
+    }
+  }
+  return records.sort(
+    (a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt),
+  );
+}
+
+/** Summarize history records (see readHistory). */
+export function historyStats(
+  records: HistoryRecord[],
+  topCount: number = 5,
+): HistoryStats {
+  const commandFailures = records.filter(
+    (record) =>
+      record.outcome === "ran" &&
+      record.exitCode !== undefined &&
+      record.exitCode !== 0,
+  ).length;
+  const notAcquired = records.filter(
+    (record) => record.outcome === "failed" && !record.acquired,
+  ).length;
+
+  const holders = new Map<string, HistoryStats["topHolders"][number]>();
+  for (const record of records.filter((record) => record.acquired)) {
+    const key = JSON.stringify([record.command, record.hostname]);
+    const holder = holders.get(key) ?? {
+      command: record.command,
+      hostname: record.hostname,
+      runs: 0,
+      heldMs: 0,
+    };
+    holder.runs++;
+    holder.heldMs += record.heldMs;
+    holders.set(key, holder);
+  }
+
+  return {
+    runs: records.length,
+    first: records[0]?.startedAt,
+    last: records.at(-1)?.startedAt,
+    wait: summarize(records.map((record) => record.waitedMs)),
+    hold: summarize(
+      records
+        .filter((record) => record.acquired)
+        .map((record) => record.heldMs),
+    ),
+    commandFailures,
+    notAcquired,
+    failureRate:
+      records.length > 0 ? (commandFailures + notAcquired) / records.length : 0,
+    topHolders: [...holders.values()]
+      .sort((a, b) => b.runs - a.runs || b.heldMs - a.heldMs)
+      .slice(0, topCount),
+  };
+}
+
+/**
+ * Collect the events of a mutexRun call into its history record
+ *
+ * @returns onEvent to pass the run's events to, and save to append the record
+ *   once the run is over (a no-op if the run never started waiting)
+ */
+export function historyRecorder(cwd: string = process.cwd()) {
+  let lockPath: string | undefined;
+  let record: HistoryRecord | undefined;
+
+  const onEvent = (event: MutexRunEvent) => {
+    if (event.type === "wait-start") {
+      lockPath = event.lockPaths[0];
+      record = {
+        startedAt: event.time,
+        waitedMs: 0,
+        heldMs: 0,
+        acquired: false,
+        outcome: "failed",
+        command: event.command,
+        cwd: resolve(cwd),
+        hostname: hostname(),
+        user: currentUser(),
+      };
+    }
+    if (!record) return;
+
+    switch (event.type) {
+      case "acquired":
+        record.acquired = true;
+        record.waitedMs = event.waitedMs;
+        break;
+      case "skipped":
+        record.outcome = "skipped";
+        break;
+      case "coalesced":
+        record.outcome = "coalesced";
+        record.exitCode = event.exitCode;
+        break;
+      case "child-exit":
+        record.outcome = "ran";
+        record.exitCode = event.exitCode;
+        break;
+      case "released":
+        record.heldMs = event.heldMs;
+        break;
+      case "error":
+        record.outcome = "failed";
+        break;
+    }
+    if (!record.acquired) {
+      record.waitedMs = Date.parse(event.time) - Date.parse(record.startedAt);
+    }
+  };
+
+  const save = async () => {
+    if (lockPath && record) await appendHistory(lockPath, record);
+  };
+
+  return { onEvent, save };
+}
+
+/** Nearest-rank percentile of sorted values. */
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.max(Math.ceil(p * sorted.length) - 1, 0)]!;
+}
+
+function summarize(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    max: sorted.at(-1) ?? 0,
+    total: sorted.reduce((sum, value) => sum + value, 0),
+  };
+}
+
+/** Parse one line of the history, skipping anything that isn't a record. */
+function parseRecord(line: string): HistoryRecord | undefined {
+  if (!line.trim()) return undefined;
+  try {
+    const raw = JSON.parse(line);
+    return typeof raw?.startedAt === "string" &&
+      typeof raw.waitedMs === "number" &&
+      typeof raw.heldMs === "number" &&
+      Array.isArray(raw.command)
+      ? (raw as HistoryRecord)
+      : undefined;
+  } catch {
+    // A line cut short by a crash
+    return undefined;
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { decodeToken, encodeToken, releaseHold } from "./hold";
+
+describe("hold tokens", () => {
+  it("round-trip through the shell-safe encoding", () => {
+    const token = encodeToken({ lockPaths: ["/tmp/build.lock"], pid: 4312 });
+    expect(token).toMatch(/^[\w-]+$/);
+    expect(decodeToken(token)).toEqual({
+      lockPaths: ["/tmp/build.lock"],
+      pid: 4312,
+    });
+  });
+
+  it("reject malformed tokens", () => {
+    expect(() => decodeToken("not a token")).toThrow("Invalid hold token");
+    expect(() =>
+      decodeToken(Buffer.from('{"pid": 1}').toString("base64url")),
+    ).toThrow("Invalid hold token");
+  });
+
+  it("refuse to release a lock the keeper no longer holds", async () => {
+    // Our own pid is alive, but does not hold the lock
+    const token = encodeToken({
+      lockPaths: ["/tmp/mutex-run-test-hold-none.lock"],
+      pid: process.pid,
+    });
+    await expect(releaseHold(token)).rejects.toThrow(/not held by this token/);
+  });
+});
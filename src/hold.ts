@@ -0,0 +1,340 @@
+import { execa } from "execa";
+import { readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { acquireAll, releaseAll, type LockOptions } from "./lock";
+import { inspectLock } from "./inspect";
+import { FORWARDED_SIGNALS } from "./signals";
+import { HOLDER_ENV, lockEnv, LOCKS_ENV } from "./reentrant";
+import { isProcessAlive, processInfo, processStartTime, sleep } from "./utils";
+
+// A hold keeps a lock across separate shell steps. `mutex-run hold` starts a
+// detached keeper process (the CLI again, with KEEPER_ENV set) that acquires
+// the lock and keeps it refreshed, then prints a token naming the keeper.
+// `mutex-run release` hands the token back, which stops the keeper. The keeper
+// also lets go when the process it was started for (the calling shell, see
+// callingShell) exits. A keeper that loses its lock leaves a record of the
+// loss next to the lock for release and status to report.
+
+/** Environment variable the token is exported as. */
+export const TOKEN_ENV = "MUTEX_RUN_TOKEN";
+
+/** Set in the keeper's environment to the pid of the process it serves. */
+export const KEEPER_ENV = "MUTEX_RUN_KEEPER_FOR";
+
+/** How often the keeper checks that the process it serves still runs. */
+const PARENT_CHECK_INTERVAL = 1000;
+
+/** How long release waits for the keeper to let go. */
+const RELEASE_TIMEOUT = 10000;
+
+/** How many wrapper processes callingShell looks past at most. */
+const MAX_WRAPPERS = 8;
+
+/**
+ * Package runners and launchers that `hold` may run under, by executable or
+ * script path (npx, pnpm exec, yarn, bunx, tsx, corepack shims)
+ */
+const WRAPPER =
+  /(?:^|\/)(?:npm|npx|pnpm|pnpx|yarn|yarnpkg|bun|bunx|tsx|corepack)(?:-cli)?(?:\.[cm]?js)?$|\/node_modules\/(?:npm|pnpm|yarn|tsx|corepack)\//;
+
+/** Runtimes whose script tells whether they run a wrapper. */
+const RUNTIME = /(?:^|\/)(?:node|nodejs)$/;
+
+/** Shells, which wrappers such as npx run commands through with -c. */
+const SHELL = /(?:^|\/)-?(?:sh|bash|dash|zsh|ksh|ash)$/;
+
+/**
+ * What a hold token stands for
+ */
+export interface HoldToken {
+  /** Absolute paths of the held locks, in lock order */
+  lockPaths: string[];
+  /** Pid of the keeper process */
+  pid: number;
+}
+
+/**
+ * Message the keeper sends once it holds the lock, or failed to. `env` lets
+ * runs in the shell see the lock as held by an ancestor (see reentrant).
+ */
+type KeeperMessage =
+  | { token: string; env: Record<string, string> }
+  | { error: string };
+
+/**
+ * Record a keeper leaves behind when it loses a held lock
+ */
+export interface LostHold {
+  /** Absolute path of the lost lock */
+  lockPath: string;
+  /** Pid of the keeper that held it */
+  pid: number;
+  /** Why the lock was lost */
+  reason: string;
+  /** When the lock was lost (ISO 8601) */
+  lostAt: string;
+}
+
+function lostHoldPath(lockPath: string, pid: number) {
+  return `${lockPath}.hold-${pid}.lost.json`;
+}
+
+/**
+ * Read the records of holds on a lock that lost it and were not released
+ * since
+ */
+export async function readLostHolds(lockPath: string): Promise<LostHold[]> {
+  const prefix = `${basename(lockPath)}.hold-`;
+  const lost: LostHold[] = [];
+  for (const name of await readdir(dirname(lockPath)).catch(() => [])) {
+    if (!name.startsWith(prefix) || !name.endsWith(".lost.json")) continue;
+    try {
+      lost.push(
+        JSON.parse(await readFile(join(dirname(lockPath), name), "utf8")),
+      );
+    } catch {
+      // Being written or removed
+    }
+  }
+  return lost;
+}
+
+/** Encode a hold token for the shell (URL-safe base64 of JSON). */
+export function encodeToken(token: HoldToken) {
+  return Buffer.from(JSON.stringify(token)).toString("base64url");
+}
+
+/**
+ * Decode a token printed by `mutex-run hold`
+ *
+ * @throws Error if the token is malformed
+ */
+export function decodeToken(token: string): HoldToken {
+  try {
+    const raw = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (
+      Array.isArray(raw?.lockPaths) &&
+      raw.lockPaths.length > 0 &&
+      typeof raw.pid === "number"
+    ) {
+      return raw as HoldToken;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error("Invalid hold token");
+}
+
+/**
+ * Find the shell `hold` was called from: the parent process, or the first
+ * ancestor past the wrappers it was started through (npx, pnpm exec, tsx),
+ * which exit as soon as `hold` returns
+ *
+ * @returns Pid of the calling shell
+ */
+export async function callingShell() {
+  let pid = process.ppid;
+  let info = await processInfo(pid);
+  for (let depth = 0; info && depth < MAX_WRAPPERS; depth++) {
+    const parent = await processInfo(info.ppid);
+    // npx runs its command with `sh -c`, under the npx process
+    const isWrapperShell =
+      SHELL.test(info.argv[0] ?? "") &&
+      info.argv.includes("-c") &&
+      parent !== undefined &&
+      isWrapper(parent.argv);
+    if (info.ppid <= 1 || !(isWrapper(info.argv) || isWrapperShell)) break;
+    pid = info.ppid;
+    info = parent;
+  }
+  return pid;
+}
+
+function isWrapper([command = "", script = ""]: string[]) {
+  return (
+    WRAPPER.test(command) || (RUNTIME.test(command) && WRAPPER.test(script))
+  );
+}
+
+/**
+ * Start a keeper for the given CLI arguments and wait until it holds the lock
+ *
+ * @param argv - Arguments of `mutex-run hold`, passed on to the keeper
+ * @param parentPid - Process whose exit releases the hold (0 = none)
+ * @returns The token to release the hold with, and environment variables
+ *   for the shell
+ * @throws Error with the keeper's message if it could not acquire the lock
+ */
+export async function startKeeper(argv: string[], parentPid: number) {
+  // Run this very CLI again, under the same runtime flags (e.g. tsx's loader)
+  const keeper = execa(
+    process.execPath,
+    [...process.execArgv, process.argv[1]!, "hold", ...argv],
+    {
+      detached: true,
+      stdio: "ignore",
+      ipc: true,
+      env: { [KEEPER_ENV]: String(parentPid) },
+    },
+  );
+  keeper.catch(() => {});
+
+  try {
+    const message = (await keeper.getOneMessage()) as KeeperMessage;
+    if ("error" in message) throw new Error(message.error);
+    return message;
+  } catch (err) {
+    keeper.kill();
+    throw err;
+  } finally {
+    keeper.disconnect();
+    keeper.unref();
+  }
+}
+
+/**
+ * Body of the keeper process: acquire the locks, report the token to the
+ * starting process and hold on until released, signalled, or the parent
+ * process is gone.
+ */
+export async function runKeeper(
+  lockFiles: string[],
+  options: LockOptions,
+  parentPid: number,
+) {
+  const send = (message: KeeperMessage) =>
+    new Promise<void>((resolve) => {
+      if (!process.send) return resolve();
+      process.send(message, undefined, {}, () => resolve());
+    });
+
+  let locks;
+  try {
+    locks = await acquireAll(lockFiles, {
+      ...options,
+      command: ["mutex-run", "hold"],
+    });
+  } catch (err) {
+    await send({ error: err instanceof Error ? err.message : String(err) });
+    process.exit(1);
+  }
+  const lockPaths = locks.map((lock) => lock.lockPath);
+
+  // A parent that is already gone would end the hold right after we report
+  // it as taken
+  if (parentPid > 0 && !isProcessAlive(parentPid)) {
+    await releaseAll(locks);
+    await send({
+      error: `Process ${parentPid} (--parent) is not running, so the hold would end right away`,
+    });
+    process.exit(1);
+  }
+
+  let released = false;
+  const release = async () => {
+    if (released) return;
+    released = true;
+    await releaseAll(locks);
+    process.exit(0);
+  };
+  for (const signal of FORWARDED_SIGNALS) {
+    process.on(signal, () => void release());
+  }
+
+  // Nothing is left to keep once a lock is lost; let go of the others and
+  // leave the loss for release to report
+  for (const lock of locks) {
+    lock.signal.addEventListener(
+      "abort",
+      async () => {
+        if (released) return;
+        released = true;
+        const reason = lock.signal.reason;
+        const lost: LostHold = {
+          lockPath: lock.lockPath,
+          pid: process.pid,
+          reason: reason instanceof Error ? reason.message : String(reason),
+          lostAt: new Date().toISOString(),
+        };
+        await writeFile(
+          lostHoldPath(lock.lockPath, process.pid),
+          JSON.stringify(lost, null, 2) + "\n",
+        ).catch(() => {});
+        for (const other of [...locks].reverse()) {
+          await other.release().catch(() => {});
+        }
+        process.exit(1);
+      },
+      { once: true },
+    );
+  }
+
+  if (parentPid > 0) {
+    // A reused pid must not keep the lock alive
+    const parentStart = await processStartTime(parentPid);
+    setInterval(async () => {
+      const alive =
+        isProcessAlive(parentPid) &&
+        (parentStart === undefined ||
+          (await processStartTime(parentPid)) === parentStart);
+      if (!alive) await release();
+    }, PARENT_CHECK_INTERVAL);
+  } else {
+    // Nothing to watch; just stay alive until released
+    setInterval(() => {}, 1 << 30);
+  }
+
+  const env = lockEnv({
+    lockPaths,
+    holders: locks.map((lock) => lock.holder),
+    waitedMs: 0,
+    slot: locks[0]!.slot,
+  });
+  await send({
+    token: encodeToken({ lockPaths, pid: process.pid }),
+    env: { [LOCKS_ENV]: env[LOCKS_ENV]!, [HOLDER_ENV]: env[HOLDER_ENV]! },
+  });
+  process.disconnect?.();
+}
+
+/**
+ * End a hold: stop its keeper and wait for it to release the lock
+ *
+ * @throws Error if the token is invalid, the keeper lost the lock or no
+ *   longer holds it
+ */
+export async function releaseHold(token: string) {
+  const { lockPaths, pid } = decodeToken(token);
+
+  for (const lockPath of lockPaths) {
+    const path = lostHoldPath(lockPath, pid);
+    let lost: LostHold;
+    try {
+      lost = JSON.parse(await readFile(path, "utf8"));
+    } catch {
+      continue;
+    }
+    await rm(path, { force: true });
+    throw new Error(
+      `Hold on ${lost.lockPath} was lost at ${lost.lostAt}: ${lost.reason}`,
+    );
+  }
+
+  // Only signal the pid while it is our keeper, not a process reusing its pid
+  const { holders } = await inspectLock(lockPaths[0]!);
+  if (!holders.some((holder) => holder.pid === pid) || !isProcessAlive(pid)) {
+    throw new Error(
+      `Lock at ${lockPaths[0]} is not held by this token; it may have been released already`,
+    );
+  }
+
+  process.kill(pid, "SIGTERM");
+  const deadline = Date.now() + RELEASE_TIMEOUT;
+  while (isProcessAlive(pid)) {
+    if (Date.now() > deadline) {
+      throw new Error(`Keeper (pid ${pid}) did not release the lock in time`);
+    }
+    await sleep(50);
+  }
+  return lockPaths;
+}
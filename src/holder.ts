@@ -0,0 +1,144 @@
+import { hostname, userInfo } from "node:os";
+import { readFile, unlink, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import pkg from "../package.json" with { type: "json" };
+import { formatDuration, processStartTime } from "./utils";
+
+/**
+ * Metadata about the process currently holding a lock
+ */
+export interface HolderInfo {
+  /**
+   * Process id of the mutex-run process holding the lock
+   */
+  pid: number;
+
+  /**
+   * When the holder process started as reported by the OS, an opaque token
+   * that tells it apart from a later process reusing its pid
+   */
+  pidStartTime?: string;
+
+  /**
+   * Hostname of the machine the holder runs on
+   */
+  hostname: string;
+
+  /**
+   * Name of the user running the holder (if it could be determined)
+   */
+  user?: string;
+
+  /**
+   * Command being run under the lock ([command, ...args])
+   */
+  command: string[];
+
+  /**
+   * Working directory of the holder
+   */
+  cwd: string;
+
+  /**
+   * When the lock was acquired (ISO 8601)
+   */
+  startedAt: string;
+
+  /**
+   * Version of mutex-run that wrote this record
+   */
+  version: string;
+
+  /**
+   * Key identifying the work done under the lock, set when the holder lets
+   * identical waiters coalesce with its run
+   */
+  coalesceKey?: string;
+
+  /**
+   * All locks the holder took together, in acquisition order (only set when
+   * it holds more than one)
+   */
+  lockSet?: string[];
+}
+
+/** Path of the holder record that sits next to a lock file. */
+export function holderPath(lockFile: string) {
+  return `${resolve(lockFile)}.holder.json`;
+}
+
+/** Build the holder record for the current process. */
+export async function createHolderInfo(
+  command: string[],
+  cwd: string = process.cwd(),
+  coalesceKey?: string,
+): Promise<HolderInfo> {
+  return {
+    pid: process.pid,
+    pidStartTime: await processStartTime(process.pid),
+    hostname: hostname(),
+    user: currentUser(),
+    command,
+    cwd: resolve(cwd),
+    startedAt: new Date().toISOString(),
+    version: pkg.version,
+    coalesceKey,
+  };
+}
+
+/** Name of the user running this process, if it can be determined. */
+export function currentUser() {
+  try {
+    return userInfo().username;
+  } catch {
+    // userInfo() throws when the uid has no passwd entry (e.g. some containers)
+    return process.env.USER ?? process.env.USERNAME;
+  }
+}
+
+/** Write the holder record next to the lock file. */
+export async function writeHolderInfo(lockFile: string, info: HolderInfo) {
+  await writeFile(holderPath(lockFile), JSON.stringify(info, null, 2) + "\n");
+}
+
+/** Remove the holder record, ignoring a record that is already gone. */
+export async function removeHolderInfo(lockFile: string) {
+  await unlink(holderPath(lockFile)).catch(() => {});
+}
+
+/**
+ * Read the holder record for a lock file
+ *
+ * @param lockFile - Lock file path (relative or absolute)
+ * @returns The parsed record, or undefined if there is none or it is unreadable
+ */
+export async function readHolderInfo(
+  lockFile: string,
+): Promise<HolderInfo | undefined> {
+  try {
+    const raw = JSON.parse(await readFile(holderPath(lockFile), "utf8"));
+    if (
+      typeof raw?.pid !== "number" ||
+      !Array.isArray(raw.command) ||
+      typeof raw.startedAt !== "string"
+    ) {
+      return undefined;
+    }
+    return raw as HolderInfo;
+  } catch {
+    // Missing or half-written records are treated as "unknown holder"
+    return undefined;
+  }
+}
+
+/**
+ * Describe a holder for humans, e.g. "`pnpm build` (pid 4312, started 3m ago)"
+ */
+export function formatHolder(info: HolderInfo, now: number = Date.now()) {
+  const where =
+    info.hostname && info.hostname !== hostname()
+      ? `pid ${info.pid} on ${info.hostname}`
+      : `pid ${info.pid}`;
+  const age = formatDuration(now - Date.parse(info.startedAt));
+  return `\`${info.command.join(" ")}\` (${where}, started ${age} ago)`;
+}
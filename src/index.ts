@@ -1,6 +1,59 @@
 export {
   mutexRun,
+  EXIT_TIMED_OUT,
   type MutexRunOptions,
   type MutexRunResult,
-  type Logger,
+  type CoalesceOptions,
 } from "./mutex-run";
+export { InterruptedError } from "./signals";
+export type { MutexRunEvent } from "./events";
+export type { SkipIfFreshOptions } from "./fresh";
+export {
+  loadProfile,
+  findConfig,
+  ConfigError,
+  type ConfigProfile,
+  type MutexRunConfig,
+} from "./config";
+export {
+  acquire,
+  acquireAll,
+  releaseAll,
+  withLock,
+  LockAcquisitionError,
+  LockLostError,
+  type LockOptions,
+  type LockHandle,
+  type Logger,
+} from "./lock";
+export type { StaleCheck, StaleOptions } from "./stale";
+export {
+  fileBackend,
+  mkdirBackend,
+  memoryBackend,
+  type LockBackend,
+  type BackendLock,
+} from "./backend";
+export { readHolderInfo, formatHolder, type HolderInfo } from "./holder";
+export { namedLock, lockDir, commandLockName } from "./names";
+export {
+  readHistory,
+  historyStats,
+  type HistoryRecord,
+  type HistoryStats,
+  type RunOutcome,
+} from "./history";
+export {
+  inspectLock,
+  isLocked,
+  listLocks,
+  type InspectOptions,
+  type LockStatus,
+} from "./inspect";
+export { startDaemon, type Daemon } from "./daemon";
+export {
+  forceRelease,
+  LockInUseError,
+  type ForceReleaseOptions,
+  type ForceReleaseResult,
+} from "./unlock";
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { inspectLock, isLocked, listLocks } from "./inspect";
+import { acquire } from "./lock";
+import { mkdir, rm, utimes } from "node:fs/promises";
+import { resolve } from "node:path";
+
+describe("inspectLock", () => {
+  const dir = "/tmp/mutex-run-test-inspect";
+  const lockFile = `${dir}/build.lock`;
+
+  beforeEach(async () => {
+    await mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reports a free lock", async () => {
+    const status = await inspectLock(lockFile);
+    expect(status).toMatchObject({
+      lockPath: resolve(lockFile),
+      held: false,
+      stale: false,
+      holders: [],
+    });
+    expect(await isLocked(lockFile)).toBe(false);
+  });
+
+  it("reports the holder of a held lock", async () => {
+    const lock = await acquire(lockFile, { command: ["pnpm", "build"] });
+    try {
+      const status = await inspectLock(lockFile);
+      expect(status.held).toBe(true);
+      expect(status.holder?.command).toEqual(["pnpm", "build"]);
+      expect(status.age).toBeGreaterThanOrEqual(0);
+      expect(await isLocked(lockFile)).toBe(true);
+    } finally {
+      await lock.release();
+    }
+  });
+
+  it("counts semaphore slots and shared holders", async () => {
+    const slots = [
+      await acquire(lockFile, { concurrency: 2 }),
+      await acquire(lockFile, { concurrency: 2 }),
+    ];
+    expect((await inspectLock(lockFile)).slots).toBe(2);
+    await Promise.all(slots.map((slot) => slot.release()));
+
+    const reader = await acquire(lockFile, { mode: "shared" });
+    expect(await inspectLock(lockFile)).toMatchObject({
+      held: true,
+      readers: 1,
+    });
+    await reader.release();
+  });
+
+  it("reports an abandoned lock as stale", async () => {
+    await mkdir(`${lockFile}.lock`);
+    const old = new Date(Date.now() - 60000);
+    await utimes(`${lockFile}.lock`, old, old);
+
+    expect(await inspectLock(lockFile, { staleTimeout: 10000 })).toMatchObject({
+      held: false,
+      stale: true,
+    });
+  });
+
+  it("lists the locks in a directory", async () => {
+    const build = await acquire(lockFile);
+    const deploy = await acquire(`${dir}/deploy.lock`, { concurrency: 2 });
+    try {
+      const locks = await listLocks(dir);
+      expect(locks.map((lock) => lock.lockPath)).toEqual([
+        resolve(lockFile),
+        resolve(`${dir}/deploy.lock`),
+      ]);
+      expect(locks.every((lock) => lock.held)).toBe(true);
+    } finally {
+      await build.release();
+      await deploy.release();
+    }
+  });
+
+  it("only folds numbered locks into a lock that exists", async () => {
+    const version = await acquire(`${dir}/v1.2`);
+    try {
+      const locks = await listLocks(dir);
+      expect(locks.map((lock) => lock.lockPath)).toEqual([
+        resolve(`${dir}/v1.2`),
+      ]);
+      expect(locks[0]?.held).toBe(true);
+    } finally {
+      await version.release();
+    }
+  });
+});
@@ -0,0 +1,247 @@
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { readHolderInfo, type HolderInfo } from "./holder";
+import { readerPaths } from "./rwlock";
+import { liveTickets } from "./queue";
+import { isAbandoned, type StaleCheck } from "./stale";
+import { daemonStatus, SOCKET_ENV } from "./daemon";
+import type { LockBackend } from "./backend";
+import { parseDuration, type Duration } from "./utils";
+
+/**
+ * Options for inspectLock, isLocked and listLocks
+ */
+export interface InspectOptions {
+  /**
+   * Consider locks older than this stale; milliseconds or a duration such
+   * as "10m"
+   * @default 600000 (10 minutes)
+   */
+  staleTimeout?: Duration;
+
+  /**
+   * How to tell that a holder is gone (see LockOptions.staleCheck)
+   * @default "age"
+   */
+  staleCheck?: StaleCheck;
+
+  /**
+   * Ask this mutex-run daemon about the lock instead of looking at lock
+   * files (see LockOptions.socket). Not used by listLocks.
+   * @default process.env.MUTEX_RUN_SOCKET
+   */
+  socket?: string;
+
+  /**
+   * Ask this backend about the lock (see LockOptions.backend). Takes
+   * precedence over socket; not used by listLocks.
+   */
+  backend?: LockBackend;
+}
+
+/**
+ * State of a lock as seen from the outside
+ */
+export interface LockStatus {
+  /**
+   * Absolute path of the lock file
+   */
+  lockPath: string;
+
+  /**
+   * Whether the lock (or any of its slots) is currently held
+   */
+  held: boolean;
+
+  /**
+   * Whether an abandoned lock is left behind that the next holder will take
+   * over (its holder stopped refreshing it for longer than the stale timeout)
+   */
+  stale: boolean;
+
+  /**
+   * Record of the longest-running holder, if it wrote one
+   */
+  holder?: HolderInfo;
+
+  /**
+   * Milliseconds since the longest-running holder acquired the lock
+   */
+  age?: number;
+
+  /**
+   * Records of all current holders (semaphore slots and shared holders)
+   */
+  holders: HolderInfo[];
+
+  /**
+   * Number of semaphore slots currently held
+   */
+  slots: number;
+
+  /**
+   * Number of shared holders
+   */
+  readers: number;
+
+  /**
+   * Number of waiters in the fair queue
+   */
+  waiting: number;
+}
+
+const SLOT_NUMBER = /^\d+$/;
+
+/**
+ * Inspect a lock without trying to take it
+ *
+ * @param lockFile - Lock file path (relative or absolute)
+ * @param options - Configuration options
+ * @returns The current state of the lock
+ */
+export async function inspectLock(
+  lockFile: string = ".mutex-run.lock",
+  options: InspectOptions = {},
+): Promise<LockStatus> {
+  const staleOpts = {
+    staleTimeout: parseDuration(options.staleTimeout ?? 600000), // 10 minutes
+    staleCheck: options.staleCheck,
+  };
+  const lockPath = resolve(lockFile);
+  if (options.backend) {
+    const holders = (await options.backend.inspect(lockPath, staleOpts)).sort(
+      (a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt),
+    );
+    const holder = holders[0];
+    return {
+      lockPath,
+      held: holders.length > 0,
+      stale: false,
+      holder,
+      age: holder ? Date.now() - Date.parse(holder.startedAt) : undefined,
+      holders,
+      slots: holders.length,
+      readers: 0,
+      waiting: 0,
+    };
+  }
+  const socket = options.socket ?? process.env[SOCKET_ENV];
+  if (socket) {
+    // Nothing goes stale: the daemon drops holders as they disconnect
+    const status = await daemonStatus(socket, lockPath);
+    const holder = status.holders[0];
+    return {
+      lockPath,
+      held: status.holders.length > 0,
+      stale: false,
+      holder,
+      age: holder ? Date.now() - Date.parse(holder.startedAt) : undefined,
+      ...status,
+    };
+  }
+
+  const slotPaths = await existingSlots(lockPath);
+
+  let stale = false;
+  const heldPaths: string[] = [];
+  for (const path of [...slotPaths, ...(await readerPaths(lockPath))]) {
+    if (!existsSync(`${path}.lock`)) continue;
+    if (await isAbandoned(path, staleOpts)) {
+      stale = true;
+    } else {
+      heldPaths.push(path);
+    }
+  }
+
+  const holders = (await Promise.all(heldPaths.map(readHolderInfo)))
+    .filter((holder) => holder !== undefined)
+    .sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt));
+  const holder = holders[0];
+
+  return {
+    lockPath,
+    held: heldPaths.length > 0,
+    stale: stale && heldPaths.length === 0,
+    holder,
+    age: holder ? Date.now() - Date.parse(holder.startedAt) : undefined,
+    holders,
+    slots: heldPaths.filter((path) => slotPaths.includes(path)).length,
+    readers: heldPaths.filter((path) => !slotPaths.includes(path)).length,
+    waiting: (await liveTickets(lockPath)).length,
+  };
+}
+
+/**
+ * Lock targets of the semaphore slots of a lock that are locked right now.
+ * Slot 0 (the lock path itself) is always included.
+ */
+export async function existingSlots(lockPath: string) {
+  const slots = [lockPath];
+  const prefix = `${basename(lockPath)}.`;
+  for (const name of await readdir(dirname(lockPath)).catch(() => [])) {
+    if (!name.startsWith(prefix) || !name.endsWith(".lock")) continue;
+    const target = name.slice(0, -".lock".length);
+    if (SLOT_NUMBER.test(target.slice(prefix.length))) {
+      slots.push(join(dirname(lockPath), target));
+    }
+  }
+  return slots;
+}
+
+/**
+ * Check whether a lock is currently held, without trying to take it
+ *
+ * @param lockFile - Lock file path (relative or absolute)
+ * @param options - Configuration options
+ */
+export async function isLocked(
+  lockFile: string = ".mutex-run.lock",
+  options: InspectOptions = {},
+) {
+  return (await inspectLock(lockFile, options)).held;
+}
+
+/**
+ * Inspect every lock in a directory that is held, stale or has waiters.
+ * Only lock files are found, not locks held through a daemon or backend.
+ *
+ * @param dir - Directory to look in
+ * @param options - Configuration options
+ * @returns Status of each lock, sorted by path
+ */
+export async function listLocks(
+  dir: string = ".",
+  options: InspectOptions = {},
+): Promise<LockStatus[]> {
+  const targets = new Set<string>();
+  for (const entry of await readdir(resolve(dir), { withFileTypes: true })) {
+    // proper-lockfile locks `<file>` by creating the directory `<file>.lock`
+    const match =
+      entry.isDirectory() && entry.name.match(/^(.+)\.(lock|readers|queue)$/);
+    if (match) targets.add(match[1]!);
+  }
+
+  const lockFiles = new Set<string>();
+  for (const target of targets) {
+    // Fold semaphore slots (`build.lock.1`) into their lock, but only if
+    // there is such a lock: `v1.2` is a lock of its own unless `v1` exists
+    const slot = target.match(/^(.+)\.\d+$/);
+    const base = slot?.[1];
+    const isSlot =
+      base !== undefined &&
+      (targets.has(base) || existsSync(join(resolve(dir), base)));
+    lockFiles.add(isSlot ? base : target);
+  }
+
+  const statuses = await Promise.all(
+    [...lockFiles].map((name) =>
+      inspectLock(join(resolve(dir), name), {
+        ...options,
+        socket: "",
+        backend: undefined,
+      }),
+    ),
+  );
+  return statuses.sort((a, b) => a.lockPath.localeCompare(b.lockPath));
+}
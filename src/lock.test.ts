@@ -0,0 +1,249 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  acquire,
+  acquireAll,
+  releaseAll,
+  withLock,
+  LockAcquisitionError,
+} from "./lock";
+import { readHolderInfo } from "./holder";
+import { enqueue } from "./queue";
+import { rm, unlink } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+
+describe("acquire / withLock", () => {
+  const testLockFile = ".test-lock-api.lock";
+
+  afterEach(async () => {
+    await unlink(testLockFile).catch(() => {});
+    await rm(`${testLockFile}.queue`, { recursive: true, force: true });
+  });
+
+  it("should hold the lock until released", async () => {
+    const lock = await acquire(testLockFile, { wait: false });
+    expect(lock.slot).toBe(0);
+    expect(existsSync(`${testLockFile}.lock`)).toBe(true);
+
+    await expect(acquire(testLockFile, { wait: false })).rejects.toThrow(
+      LockAcquisitionError,
+    );
+
+    await lock.release();
+    expect(existsSync(`${testLockFile}.lock`)).toBe(false);
+    // Releasing twice is a no-op
+    await lock.release();
+  });
+
+  it("should record the current process as holder by default", async () => {
+    const lock = await acquire(testLockFile, { wait: false });
+    const holder = await readHolderInfo(testLockFile);
+    expect(holder?.pid).toBe(process.pid);
+    expect(holder?.command).toEqual(process.argv);
+    await lock.release();
+  });
+
+  it("should return the result of the critical section", async () => {
+    const result = await withLock(testLockFile, async () => 42, {
+      wait: false,
+    });
+    expect(result).toBe(42);
+    expect(existsSync(`${testLockFile}.lock`)).toBe(false);
+  });
+
+  it("should release the lock when the critical section throws", async () => {
+    await expect(
+      withLock(testLockFile, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(existsSync(`${testLockFile}.lock`)).toBe(false);
+  });
+
+  it("should serialize critical sections", async () => {
+    const events: string[] = [];
+    const section = (name: string) =>
+      withLock(testLockFile, async () => {
+        events.push(`${name} start`);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        events.push(`${name} end`);
+      });
+
+    await Promise.all([section("a"), section("b")]);
+    expect(events).toEqual(["a start", "a end", "b start", "b end"]);
+  }, 10000);
+
+  describe("cancellation", () => {
+    it("should stop waiting when the signal aborts", async () => {
+      const holder = await acquire(testLockFile, { wait: false });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error("no longer needed")), 300);
+
+      const err = await acquire(testLockFile, {
+        signal: controller.signal,
+      }).catch((e) => e);
+      expect(err).toBeInstanceOf(LockAcquisitionError);
+      expect(err.cause.message).toBe("no longer needed");
+
+      await holder.release();
+    });
+
+    it("should not grab the lock after timing out", async () => {
+      const holder = await acquire(testLockFile, { wait: false });
+      await expect(acquire(testLockFile, { timeout: 300 })).rejects.toThrow(
+        LockAcquisitionError,
+      );
+      await holder.release();
+
+      // Give a leaked retry loop time to fire and take the freed lock
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+      const lock = await acquire(testLockFile, { wait: false });
+      await lock.release();
+    }, 10000);
+
+    it("should fail right away with an aborted signal", async () => {
+      await expect(
+        acquire(testLockFile, { signal: AbortSignal.abort() }),
+      ).rejects.toThrow(LockAcquisitionError);
+      expect(existsSync(`${testLockFile}.lock`)).toBe(false);
+    });
+  });
+
+  describe("waiting", () => {
+    it("should give up after maxWait", async () => {
+      const holder = await acquire(testLockFile, { wait: false });
+      const start = Date.now();
+      const err = await acquire(testLockFile, { maxWait: "300ms" }).catch(
+        (e) => e,
+      );
+      expect(err).toBeInstanceOf(LockAcquisitionError);
+      expect(err.cause.code).toBe("ELOCKED");
+      expect(Date.now() - start).toBeLessThan(2000);
+      await holder.release();
+    });
+
+    it("should retry as soon as the lock is released", async () => {
+      const holder = await acquire(testLockFile, { wait: false });
+      const waiter = acquire(testLockFile, {
+        maxWait: "infinity",
+        retryInterval: "10s",
+        maxRetryInterval: "10s",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      const released = Date.now();
+      await holder.release();
+      const lock = await waiter;
+      expect(Date.now() - released).toBeLessThan(2000);
+      await lock.release();
+    }, 10000);
+
+    it("should reject invalid backoff settings", async () => {
+      await expect(
+        acquire(testLockFile, { backoffFactor: 0.5 }),
+      ).rejects.toThrow(/backoffFactor/);
+      await expect(acquire(testLockFile, { retryInterval: 0 })).rejects.toThrow(
+        /retryInterval/,
+      );
+    });
+  });
+
+  describe("fair mode", () => {
+    it("should hand out the lock in arrival order", async () => {
+      const holder = await acquire(testLockFile, { wait: false });
+      const order: string[] = [];
+      const positions: number[] = [];
+
+      const waiters: Promise<void>[] = [];
+      for (const name of ["a", "b", "c"]) {
+        waiters.push(
+          withLock(
+            testLockFile,
+            async () => {
+              order.push(name);
+            },
+            {
+              fair: true,
+              onQueue: (position) => {
+                if (name === "c") positions.push(position);
+              },
+            },
+          ),
+        );
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await holder.release();
+      await Promise.all(waiters);
+
+      expect(order).toEqual(["a", "b", "c"]);
+      expect(positions[0]).toBe(3);
+      expect(positions.at(-1)).toBe(1);
+    }, 20000);
+
+    it("should not jump the queue without waiting", async () => {
+      // A waiter ahead of us in the queue, while the lock itself is free
+      const ticket = await enqueue(resolve(testLockFile));
+
+      await expect(
+        acquire(testLockFile, { fair: true, wait: false }),
+      ).rejects.toThrow(LockAcquisitionError);
+      await ticket.leave();
+    }, 10000);
+  });
+
+  describe("acquireAll", () => {
+    const cacheLock = ".test-lock-cache.lock";
+    const deployLock = ".test-lock-deploy.lock";
+
+    afterEach(async () => {
+      for (const file of [cacheLock, deployLock]) {
+        await unlink(file).catch(() => {});
+      }
+    });
+
+    it("should take the locks in a fixed order and record the set", async () => {
+      const locks = await acquireAll([deployLock, cacheLock, deployLock], {
+        wait: false,
+      });
+      try {
+        const expected = [resolve(cacheLock), resolve(deployLock)];
+        expect(locks.map((lock) => lock.lockPath)).toEqual(expected);
+        expect(locks[1]!.holder.lockSet).toEqual(expected);
+      } finally {
+        await releaseAll(locks);
+      }
+      expect(existsSync(`${cacheLock}.lock`)).toBe(false);
+      expect(existsSync(`${deployLock}.lock`)).toBe(false);
+    });
+
+    it("should give back the locks it took when one is held", async () => {
+      const holder = await acquire(deployLock, { wait: false });
+      try {
+        const err = await acquireAll([cacheLock, deployLock], {
+          wait: false,
+        }).catch((e) => e);
+
+        expect(err).toBeInstanceOf(LockAcquisitionError);
+        expect(err.lockPath).toBe(resolve(deployLock));
+        expect(existsSync(`${cacheLock}.lock`)).toBe(false);
+      } finally {
+        await holder.release();
+      }
+    });
+
+    it("should not deadlock when asked for the same locks in any order", async () => {
+      const hold = (files: string[]) =>
+        acquireAll(files, { timeout: 10000 }).then(async (locks) => {
+          await new Promise((resolve) => setTimeout(resolve, 300));
+          await releaseAll(locks);
+        });
+
+      await Promise.all([
+        hold([cacheLock, deployLock]),
+        hold([deployLock, cacheLock]),
+      ]);
+    }, 15000);
+  });
+});
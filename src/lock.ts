@@ -0,0 +1,810 @@
+import lockfile from "proper-lockfile";
+import { formatDuration, parseDuration, type Duration } from "./utils";
+import {
+  acquireSlot,
+  slotPaths,
+  type ClaimedSlot,
+  type SlotRetryOptions,
+} from "./semaphore";
+import { acquireShared, readerPaths, waitForReaders } from "./rwlock";
+import { enqueue, waitForTurn } from "./queue";
+import { watchLock } from "./wakeup";
+import { claimFromDaemon, daemonStatus, SOCKET_ENV } from "./daemon";
+import { fileBackend, type BackendLock, type LockBackend } from "./backend";
+import {
+  createHolderInfo,
+  formatHolder,
+  readHolderInfo,
+  type HolderInfo,
+} from "./holder";
+import {
+  isAbandoned,
+  lockfileOptions,
+  type StaleCheck,
+  type StaleOptions,
+} from "./stale";
+import { resolve } from "node:path";
+
+/**
+ * Simple logger interface compatible with console
+ */
+export interface Logger {
+  log(...args: any[]): void;
+  error?(...args: any[]): void;
+  info?(...args: any[]): void;
+}
+
+/**
+ * Options for acquire and withLock
+ */
+export interface LockOptions {
+  /**
+   * Maximum number of holders of the lock at once. Values above 1 turn the
+   * lock path into an N-slot semaphore.
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Lock mode. Any number of "shared" holders may run together, while an
+   * "exclusive" holder runs alone. Waiting exclusive holders block new shared
+   * holders, so they are not starved. Shared mode requires concurrency 1.
+   * @default "exclusive"
+   */
+  mode?: "shared" | "exclusive";
+
+  /**
+   * Wait in a first-come, first-served queue instead of racing other waiters.
+   * Only waiters that use fair mode are kept in order.
+   * @default false
+   */
+  fair?: boolean;
+
+  /**
+   * Wait for lock instead of failing immediately
+   * @default true
+   */
+  wait?: boolean;
+
+  /**
+   * Overall timeout (0 = no timeout); milliseconds or a duration such as "5m"
+   * @default 0
+   */
+  timeout?: Duration;
+
+  /**
+   * How long to keep retrying a held lock when waiting; Infinity (or
+   * "infinity") waits forever. Applies together with timeout, whichever ends
+   * first.
+   * @default 3600000 (1 hour)
+   */
+  maxWait?: Duration;
+
+  /**
+   * Delay before the first retry; later retries back off by backoffFactor.
+   * Waiters also retry as soon as the lock changes, where the filesystem
+   * reports changes.
+   * @default 1000
+   */
+  retryInterval?: Duration;
+
+  /**
+   * Longest delay between retries
+   * @default 3000
+   */
+  maxRetryInterval?: Duration;
+
+  /**
+   * Factor the delay between retries grows by (1 = no backoff)
+   * @default 1.1
+   */
+  backoffFactor?: number;
+
+  /**
+   * Unix socket of a mutex-run daemon to take the lock through, instead of
+   * lock files. Every process contending for a lock must use the same one.
+   * @default process.env.MUTEX_RUN_SOCKET (unset = lock files)
+   */
+  socket?: string;
+
+  /**
+   * Take the lock with this backend (see fileBackend, mkdirBackend and
+   * memoryBackend). Backends other than fileBackend support exclusive locks
+   * and semaphores, but not shared mode or fair queueing. Takes precedence
+   * over socket.
+   * @default fileBackend()
+   */
+  backend?: LockBackend;
+
+  /**
+   * Abort waiting for the lock. A lock that is claimed while the signal
+   * aborts is released again right away.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Consider locks older than this stale; milliseconds or a duration such
+   * as "10m"
+   * @default 600000 (10 minutes)
+   */
+  staleTimeout?: Duration;
+
+  /**
+   * How to tell that a holder is gone: "age" treats locks older than
+   * staleTimeout as stale, "pid" checks whether the holder process still runs
+   * (falling back to "age" for holders on other hosts)
+   * @default "age"
+   */
+  staleCheck?: StaleCheck;
+
+  /**
+   * Command recorded in the holder record
+   * @default process.argv
+   */
+  command?: string[];
+
+  /**
+   * Working directory recorded in the holder record
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * Key identifying the work done under the lock, recorded in the holder
+   * record so that identical waiters can coalesce with this run
+   */
+  coalesceKey?: string;
+
+  /**
+   * Optional logger for diagnostics (must have at least a log method)
+   */
+  logger?: Logger;
+
+  /**
+   * Locks taken together with this one (see acquireAll), recorded in the
+   * holder record
+   */
+  lockSet?: string[];
+
+  /**
+   * Called periodically while waiting with the record of the current lock
+   * holder (only when the holder wrote one) and the lock it holds
+   */
+  onHolder?: (holder: HolderInfo, lockPath: string) => void;
+
+  /**
+   * Called in fair mode while waiting with the 1-based queue position and the
+   * number of waiters in the queue
+   */
+  onQueue?: (position: number, length: number) => void;
+}
+
+/**
+ * A held lock, returned by acquire
+ */
+export interface LockHandle {
+  /**
+   * Absolute path of the lock file
+   */
+  lockPath: string;
+
+  /**
+   * Semaphore slot that was claimed (always 0 when concurrency is 1)
+   */
+  slot: number;
+
+  /**
+   * Holder record written for this lock
+   */
+  holder: HolderInfo;
+
+  /**
+   * Aborted with a LockLostError if the lock is lost while held, e.g.
+   * because it could not be refreshed and was taken over. Work done under
+   * the lock should stop then.
+   */
+  signal: AbortSignal;
+
+  /**
+   * Release the lock. Safe to call more than once.
+   */
+  release(): Promise<void>;
+}
+
+/**
+ * Reason a held lock's signal aborts with once the lock is lost
+ */
+export class LockLostError extends Error {
+  override name = "LockLostError";
+
+  constructor(
+    /** Absolute path of the lost lock file */
+    readonly lockPath: string,
+    options?: ErrorOptions,
+  ) {
+    super(`Lost lock at: ${lockPath}`, options);
+  }
+}
+
+/** A lock target claimed through the backend */
+interface ClaimedTarget extends ClaimedSlot {
+  lock: BackendLock;
+}
+
+/**
+ * Thrown when the lock could not be acquired
+ */
+export class LockAcquisitionError extends Error {
+  override name = "LockAcquisitionError";
+
+  constructor(
+    /** Absolute path of the contended lock file */
+    readonly lockPath: string,
+    /** Record of the process holding the lock, if one was found */
+    readonly holder?: HolderInfo,
+    options?: ErrorOptions,
+  ) {
+    super(
+      holder
+        ? `Failed to acquire lock at: ${lockPath} (held by ${formatHolder(holder)})`
+        : `Failed to acquire lock at: ${lockPath}`,
+      options,
+    );
+  }
+}
+
+/**
+ * Acquire a file-based lock
+ *
+ * @param lockFile - Lock file path (relative or absolute)
+ * @param options - Configuration options
+ * @returns Handle to release the lock with
+ * @throws LockAcquisitionError if the lock could not be acquired
+ *
+ * @example
+ * ```ts
+ * const lock = await acquire(".my-lock", { timeout: 30000 });
+ * try {
+ *   await writeGeneratedFile();
+ * } finally {
+ *   await lock.release();
+ * }
+ * ```
+ */
+export async function acquire(
+  lockFile: string = ".mutex-run.lock",
+  options: LockOptions = {},
+): Promise<LockHandle> {
+  // Set defaults
+  const concurrency = options.concurrency ?? 1;
+  const mode = options.mode ?? "exclusive";
+  const fair = options.fair ?? false;
+  const wait = options.wait ?? true;
+  const timeout = parseDuration(options.timeout ?? 0);
+  const staleTimeout = parseDuration(options.staleTimeout ?? 600000); // 10 minutes
+  const staleCheck = options.staleCheck ?? "age";
+
+  // Create no-op logger if none provided
+  const log = options.logger ?? {
+    log: () => {},
+    error: () => {},
+    info: () => {},
+  };
+
+  // Retry configuration
+  const maxWait = wait
+    ? parseDuration(options.maxWait ?? 3600000, { allowInfinity: true }) // 1 hour
+    : 0; // Fail immediately
+  const retryInterval = parseDuration(options.retryInterval ?? 1000);
+  const maxRetryInterval = parseDuration(options.maxRetryInterval ?? 3000);
+  const factor = options.backoffFactor ?? 1.1;
+  if (retryInterval <= 0 || maxRetryInterval <= 0) {
+    throw new Error("retryInterval and maxRetryInterval must be positive");
+  }
+  if (!Number.isFinite(factor) || factor < 1) {
+    throw new Error(`backoffFactor must be at least 1 (got ${factor})`);
+  }
+
+  // Resolve lock path and ensure the lock targets exist
+  const lockPath = resolve(lockFile);
+  const paths = slotPaths(lockPath, concurrency);
+  if (mode === "shared" && concurrency > 1) {
+    throw new Error("Shared mode cannot be combined with concurrency > 1");
+  }
+  const backend = options.backend ?? fileBackend();
+  // The reader entries and queue tickets live in files next to the lock
+  if (backend !== fileBackend() && (mode === "shared" || fair)) {
+    throw new Error(
+      "Shared mode and fair queueing are not supported with this lock backend, only with fileBackend",
+    );
+  }
+  const socket = options.socket ?? process.env[SOCKET_ENV];
+  if (!options.backend && socket) {
+    return acquireFromDaemon(
+      socket,
+      lockPath,
+      { concurrency, mode, wait, timeout, maxWait },
+      options,
+      log,
+    );
+  }
+
+  // Tell waiters who we are; the record is stored with every target we claim
+  const holder = await createHolderInfo(
+    options.command ?? process.argv,
+    options.cwd,
+    options.coalesceKey,
+  );
+  if (options.lockSet && options.lockSet.length > 1) {
+    holder.lockSet = options.lockSet;
+  }
+  const staleOpts = { staleTimeout, staleCheck };
+
+  // Try the given lock targets once each, stamping the record with the time
+  // of the attempt that gets one
+  const claimTarget = async (
+    targets: string[],
+  ): Promise<ClaimedTarget | undefined> => {
+    for (const [slot, path] of targets.entries()) {
+      const lock = await backend.acquire(
+        path,
+        { ...holder, startedAt: new Date().toISOString() },
+        staleOpts,
+      );
+      if (lock) {
+        return { slot, path, lock, release: () => backend.release(lock) };
+      }
+    }
+    return undefined;
+  };
+
+  // Where the records of whoever we may be waiting on live; shared holders
+  // only ever wait on the gate, exclusive ones on readers too
+  const holderPaths = async () =>
+    mode === "shared" ? paths : [...paths, ...(await readerPaths(lockPath))];
+  const currentHolder = () =>
+    backend === fileBackend()
+      ? readLiveHolder(holderPaths, staleOpts)
+      : backend.inspect(lockPath, staleOpts).then(oldestHolder);
+
+  let claimed: ClaimedTarget;
+  try {
+    log.log?.(
+      concurrency > 1
+        ? `acquiring lock at ${lockPath} (${concurrency} slots)`
+        : mode === "shared"
+          ? `acquiring shared lock at ${lockPath}`
+          : `acquiring lock at ${lockPath}`,
+    );
+    if (wait) {
+      log.log?.(
+        `will wait for lock (timeout=${timeout}ms, max wait ${maxWait === Infinity ? "unlimited" : formatDuration(maxWait)})`,
+      );
+    }
+
+    const { signal, clear } = timeoutSignal(timeout, options.signal);
+
+    const watcher = wait ? watchLock(lockPath) : undefined;
+    const retryOpts = {
+      ...staleOpts,
+      deadline: Date.now() + maxWait,
+      retryInterval,
+      maxRetryInterval,
+      factor,
+      signal,
+      watcher,
+    };
+    const claim = () =>
+      mode === "shared"
+        ? acquireShared(lockPath, retryOpts, (entry) => claimTarget([entry]))
+        : acquireExclusive(lockPath, paths, retryOpts, claimTarget);
+    const lockPromise = fair
+      ? acquireInTurn(lockPath, retryOpts, claim, (position, length) => {
+          log.log?.(`position ${position} of ${length} in queue`);
+          options.onQueue?.(position, length);
+        })
+      : claim();
+    const stopWatching = wait
+      ? watchHolder(currentHolder, (current, changed) => {
+          if (changed) log.log?.(`waiting on ${formatHolder(current)}`);
+          options.onHolder?.(current, lockPath);
+        })
+      : () => {};
+
+    try {
+      claimed = await lockPromise;
+    } finally {
+      clear();
+      stopWatching();
+      watcher?.close();
+    }
+
+    log.log?.(
+      concurrency > 1
+        ? `lock acquired (slot ${claimed.slot})`
+        : "lock acquired",
+    );
+  } catch (err) {
+    const error = new LockAcquisitionError(
+      lockPath,
+      backend === fileBackend()
+        ? await readOldestHolder(await holderPaths())
+        : await currentHolder().catch(() => undefined),
+      { cause: err },
+    );
+    log.error?.(error.message);
+    throw error;
+  }
+
+  const lock = claimed.lock;
+  const { signal, lose } = lossSignal(lockPath, log);
+  const refresher = setInterval(
+    () =>
+      backend.refresh(lock).catch((err) => {
+        clearInterval(refresher);
+        if (!released) lose(err);
+      }),
+    Math.max(staleTimeout, 2000) / 2,
+  );
+  refresher.unref();
+
+  let released = false;
+  const release = async () => {
+    if (released) return;
+    released = true;
+    clearInterval(refresher);
+    try {
+      log.log?.("cleanup start");
+      await backend.release(lock);
+      log.log?.("lock released");
+    } catch (err) {
+      log.log?.("cleanup error:", err);
+      // Errors during cleanup are non-fatal
+    }
+  };
+
+  return { lockPath, slot: claimed.slot, holder: lock.holder, signal, release };
+}
+
+/**
+ * Resolve lock files to the order in which they are always acquired
+ * (absolute paths, sorted, without duplicates)
+ */
+export function lockOrder(lockFiles: string[]) {
+  return [...new Set(lockFiles.map((file) => resolve(file)))].sort();
+}
+
+/**
+ * Acquire several file-based locks together
+ *
+ * Locks are taken one by one in a canonical order (see lockOrder), so two
+ * callers asking for the same locks in any order cannot deadlock. If any of
+ * them cannot be acquired, the ones already taken are released again.
+ *
+ * @param lockFiles - Lock file paths (relative or absolute)
+ * @param options - Configuration options, applied to every lock; the timeout
+ *   covers acquiring all of them
+ * @returns Handles in acquisition order
+ * @throws LockAcquisitionError for the lock that could not be acquired
+ */
+export async function acquireAll(
+  lockFiles: string[],
+  options: LockOptions = {},
+): Promise<LockHandle[]> {
+  const lockPaths = lockOrder(lockFiles);
+  if (lockPaths.length === 0) {
+    throw new Error("No lock files specified");
+  }
+  if (lockPaths.length === 1) {
+    return [await acquire(lockPaths[0]!, options)];
+  }
+
+  // One deadline for the whole set, like the timeout of a single lock
+  const { signal, clear } = timeoutSignal(
+    parseDuration(options.timeout ?? 0),
+    options.signal,
+  );
+
+  const locks: LockHandle[] = [];
+  try {
+    for (const lockPath of lockPaths) {
+      locks.push(
+        await acquire(lockPath, {
+          ...options,
+          timeout: 0,
+          signal,
+          lockSet: lockPaths,
+        }),
+      );
+    }
+    return locks;
+  } catch (err) {
+    // Don't sit on some of the locks while others wait for them
+    await releaseAll(locks);
+    throw err;
+  } finally {
+    clear();
+  }
+}
+
+/** Release locks in the reverse order of acquiring them. */
+export async function releaseAll(locks: LockHandle[]) {
+  for (const lock of [...locks].reverse()) {
+    await lock.release();
+  }
+}
+
+/**
+ * Run an async function while holding a file-based lock
+ *
+ * @param lockFile - Lock file path (relative or absolute)
+ * @param fn - Critical section; receives the lock handle
+ * @param options - Configuration options
+ * @returns Whatever fn returns. The lock is released even if fn throws.
+ *
+ * @example
+ * ```ts
+ * await withLock(".codegen.lock", async () => {
+ *   await writeFile("generated.ts", await generate());
+ * });
+ * ```
+ */
+export async function withLock<T>(
+  lockFile: string,
+  fn: (lock: LockHandle) => Promise<T> | T,
+  options: LockOptions = {},
+): Promise<T> {
+  const lock = await acquire(lockFile, options);
+  try {
+    return await fn(lock);
+  } finally {
+    await lock.release();
+  }
+}
+
+/**
+ * Signal for a LockHandle, aborted (and logged) with a LockLostError once
+ * lose is called with what went wrong
+ */
+function lossSignal(lockPath: string, log: Logger) {
+  const controller = new AbortController();
+  return {
+    signal: controller.signal,
+    lose(cause: unknown) {
+      if (controller.signal.aborted) return;
+      const error = new LockLostError(lockPath, { cause });
+      log.error?.(error.message);
+      controller.abort(error);
+    },
+  };
+}
+
+/**
+ * Combine the caller's signal with the overall timeout (0 = none). The timeout
+ * aborts acquisition just like the caller's signal, so a timed-out waiter
+ * stops retrying and never ends up holding the lock.
+ *
+ * @returns The combined signal, and clear to stop the timer once done
+ */
+function timeoutSignal(timeout: number, signal: AbortSignal | undefined) {
+  const controller = new AbortController();
+  const timer =
+    timeout > 0
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new Error(`Lock acquisition timeout after ${timeout}ms`),
+            ),
+          timeout,
+        )
+      : undefined;
+  return {
+    signal: signal
+      ? AbortSignal.any([signal, controller.signal])
+      : controller.signal,
+    clear: () => clearTimeout(timer),
+  };
+}
+
+/**
+ * Take the lock through a mutex-run daemon (see daemon.ts). The daemon queues
+ * all waiters in order and releases the lock when our connection drops, so
+ * there is no lock file to go stale and the fair option is implied.
+ */
+async function acquireFromDaemon(
+  socketPath: string,
+  lockPath: string,
+  settings: {
+    concurrency: number;
+    mode: "shared" | "exclusive";
+    wait: boolean;
+    timeout: number;
+    maxWait: number;
+  },
+  options: LockOptions,
+  log: Logger,
+): Promise<LockHandle> {
+  const holder = await createHolderInfo(
+    options.command ?? process.argv,
+    options.cwd,
+    options.coalesceKey,
+  );
+  if (options.lockSet && options.lockSet.length > 1) {
+    holder.lockSet = options.lockSet;
+  }
+
+  const { signal, clear } = timeoutSignal(settings.timeout, options.signal);
+  let claim;
+  try {
+    log.log?.(`acquiring lock at ${lockPath} through daemon at ${socketPath}`);
+    let lastHolder: string | undefined;
+    claim = await claimFromDaemon(
+      socketPath,
+      { lockPath, ...settings, holder },
+      {
+        deadline: Date.now() + settings.maxWait,
+        signal,
+        onHolder: (current) => {
+          const key = `${current.hostname}:${current.pid}:${current.startedAt}`;
+          if (key !== lastHolder)
+            log.log?.(`waiting on ${formatHolder(current)}`);
+          lastHolder = key;
+          options.onHolder?.(current, lockPath);
+        },
+        onQueue: (position, length) => {
+          log.log?.(`position ${position} of ${length} in queue`);
+          options.onQueue?.(position, length);
+        },
+      },
+    );
+  } catch (err) {
+    const status = await daemonStatus(socketPath, lockPath).catch(
+      () => undefined,
+    );
+    const error = new LockAcquisitionError(lockPath, status?.holders[0], {
+      cause: err,
+    });
+    log.error?.(error.message);
+    throw error;
+  } finally {
+    clear();
+  }
+
+  log.log?.(
+    settings.concurrency > 1
+      ? `lock acquired (slot ${claim.slot})`
+      : "lock acquired",
+  );
+  const loss = lossSignal(lockPath, log);
+  claim.signal.addEventListener("abort", () => loss.lose(claim.signal.reason), {
+    once: true,
+  });
+
+  let released = false;
+  const release = async () => {
+    if (released) return;
+    released = true;
+    await claim.release();
+    log.log?.("lock released");
+  };
+  return {
+    lockPath,
+    slot: claim.slot,
+    holder: claim.holder,
+    signal: loss.signal,
+    release,
+  };
+}
+
+/**
+ * Take a ticket, wait until it is our turn and claim the lock. The ticket is
+ * handed back either way, letting the next waiter move up.
+ */
+async function acquireInTurn<T extends ClaimedSlot>(
+  lockPath: string,
+  opts: SlotRetryOptions,
+  claim: () => Promise<T>,
+  onPosition: (position: number, length: number) => void,
+) {
+  const ticket = await enqueue(lockPath);
+  try {
+    let last = "";
+    await waitForTurn(lockPath, ticket, opts, (position, length) => {
+      // Only report moves through the queue, not every poll
+      if (`${position}/${length}` === last) return;
+      last = `${position}/${length}`;
+      onPosition(position, length);
+    });
+    return await claim();
+  } finally {
+    await ticket.leave();
+  }
+}
+
+/**
+ * Claim a slot and, for a plain lock, wait for shared holders to drain while
+ * keeping the gate closed to new ones.
+ */
+async function acquireExclusive<T extends ClaimedSlot>(
+  lockPath: string,
+  paths: string[],
+  opts: SlotRetryOptions,
+  claim: (paths: string[]) => Promise<T | undefined>,
+) {
+  const claimed = await acquireSlot(paths, opts, claim);
+  if (paths.length > 1) return claimed;
+
+  try {
+    await waitForReaders(lockPath, opts);
+  } catch (err) {
+    await claimed.release();
+    throw err;
+  }
+  return claimed;
+}
+
+/**
+ * Read the holder records of all slots and return the longest-running one,
+ * which is the best guess for who frees up first.
+ */
+async function readOldestHolder(paths: string[]) {
+  return oldestHolder(await Promise.all(paths.map(readHolderInfo)));
+}
+
+/** The longest-running of the given holders, if any. */
+function oldestHolder(holders: (HolderInfo | undefined)[]) {
+  return holders
+    .filter((holder) => holder !== undefined)
+    .sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt))[0];
+}
+
+/**
+ * Record of the longest-running holder of the given lock targets, ignoring
+ * leftover records of targets nobody actually holds.
+ */
+async function readLiveHolder(
+  listPaths: () => Promise<string[]>,
+  staleOpts: StaleOptions,
+) {
+  const paths = await listPaths();
+  const held = await Promise.all(
+    paths.map(
+      async (path) =>
+        (await lockfile.check(path, lockfileOptions(staleOpts))) &&
+        !(await isAbandoned(path, staleOpts)),
+    ),
+  );
+  return readOldestHolder(paths.filter((_, i) => held[i]));
+}
+
+/**
+ * Poll the holder of a contended lock until the returned stop function is
+ * called. `changed` is true the first time a given holder is seen.
+ */
+function watchHolder(
+  readHolder: () => Promise<HolderInfo | undefined>,
+  onHolder: (holder: HolderInfo, changed: boolean) => void,
+) {
+  let stopped = false;
+  let lastSeen: string | undefined;
+
+  const poll = async () => {
+    try {
+      const holder = await readHolder();
+      if (stopped || !holder) return;
+
+      const key = `${holder.hostname}:${holder.pid}:${holder.startedAt}`;
+      onHolder(holder, key !== lastSeen);
+      lastSeen = key;
+    } catch {
+      // Polling is best-effort
+    }
+  };
+
+  void poll();
+  const timer = setInterval(poll, 1000);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
@@ -1,7 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { mutexRun } from "./mutex-run";
-import { unlink } from "node:fs/promises";
+import { EXIT_TIMED_OUT, mutexRun } from "./mutex-run";
+import { acquire, LockAcquisitionError } from "./lock";
+import { InterruptedError } from "./signals";
+import type { MutexRunEvent } from "./events";
+import { runId } from "./coalesce";
+import { holderPath, readHolderInfo } from "./holder";
+import { readFile, rm, unlink, writeFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
+import { resolve } from "node:path";
 
 describe("mutexRun API", () => {
   const testLockFile = ".test-mutex.lock";
@@ -152,4 +158,625 @@ describe("mutexRun API", () => {
     // Wait for first command to complete
     await firstPromise;
   });
+
+  it("should record holder metadata while the command runs", async () => {
+    const running = mutexRun(["sleep", "1"], {
+      lockFile: testLockFile,
+      wait: false,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    const holder = await readHolderInfo(testLockFile);
+    expect(holder?.pid).toBe(process.pid);
+    expect(holder?.command).toEqual(["sleep", "1"]);
+    expect(holder?.cwd).toBe(process.cwd());
+
+    await running;
+    expect(existsSync(holderPath(testLockFile))).toBe(false);
+  });
+
+  it("should report the holder when the lock is unavailable", async () => {
+    const first = mutexRun(["sleep", "1"], {
+      lockFile: testLockFile,
+      wait: false,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const err = await mutexRun(["echo", "test"], {
+      lockFile: testLockFile,
+      wait: false,
+    }).catch((e) => e);
+
+    expect(err).toBeInstanceOf(LockAcquisitionError);
+    expect(err.holder?.command).toEqual(["sleep", "1"]);
+    expect(err.message).toContain("held by `sleep 1`");
+
+    await first;
+  });
+
+  it("should report the holder to waiters", async () => {
+    const first = mutexRun(["sleep", "2"], {
+      lockFile: testLockFile,
+      wait: false,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const seen: string[][] = [];
+    const result = await mutexRun(["echo", "test"], {
+      lockFile: testLockFile,
+      onHolder: (holder) => seen.push(holder.command),
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(seen[0]).toEqual(["sleep", "2"]);
+
+    await first;
+  }, 10000);
+
+  it("should terminate the command when the signal aborts", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("cancelled")), 300);
+
+    const events: MutexRunEvent[] = [];
+    const started = Date.now();
+    await expect(
+      mutexRun(["sleep", "5"], {
+        lockFile: testLockFile,
+        wait: false,
+        signal: controller.signal,
+        onEvent: (event) => events.push(event),
+      }),
+    ).rejects.toThrow("cancelled");
+    expect(Date.now() - started).toBeLessThan(3000);
+    expect(existsSync(`${testLockFile}.lock`)).toBe(false);
+    expect(events.map((event) => event.type).slice(-3)).toEqual([
+      "child-exit",
+      "released",
+      "error",
+    ]);
+  });
+
+  it("should hold every lock in lockFile while the command runs", async () => {
+    const otherLockFile = ".test-mutex-other.lock";
+    try {
+      const result = await mutexRun(
+        [
+          "node",
+          "-e",
+          `const { existsSync } = require("node:fs");
+           process.exit(existsSync("${testLockFile}.lock") && existsSync("${otherLockFile}.lock") ? 0 : 1)`,
+        ],
+        { lockFile: [otherLockFile, testLockFile], wait: false },
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(existsSync(`${otherLockFile}.lock`)).toBe(false);
+    } finally {
+      await unlink(otherLockFile).catch(() => {});
+    }
+  });
+
+  describe("onEvent", () => {
+    it("should report each step of a run", async () => {
+      const events: MutexRunEvent[] = [];
+      await mutexRun(["node", "-e", "process.exit(3)"], {
+        lockFile: testLockFile,
+        wait: false,
+        onEvent: (event) => events.push(event),
+      });
+
+      expect(events.map((event) => event.type)).toEqual([
+        "wait-start",
+        "acquired",
+        "child-start",
+        "child-exit",
+        "released",
+      ]);
+      expect(events[3]).toMatchObject({ type: "child-exit", exitCode: 3 });
+      expect(Date.parse(events[0]!.time)).not.toBeNaN();
+    });
+
+    it("should report the holder while waiting", async () => {
+      const first = mutexRun(["sleep", "2"], {
+        lockFile: testLockFile,
+        wait: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      const events: MutexRunEvent[] = [];
+      await mutexRun(["echo", "test"], {
+        lockFile: testLockFile,
+        onEvent: (event) => events.push(event),
+      });
+
+      const waiting = events.filter((event) => event.type === "still-waiting");
+      expect(waiting).toHaveLength(1);
+      expect(waiting[0]?.holder.command).toEqual(["sleep", "2"]);
+      const acquired = events.find((event) => event.type === "acquired");
+      expect(acquired?.waitedMs).toBeGreaterThan(500);
+
+      await first;
+    }, 10000);
+
+    it("should report errors", async () => {
+      const holder = await acquire(testLockFile, { wait: false });
+      const events: MutexRunEvent[] = [];
+      await mutexRun(["echo", "test"], {
+        lockFile: testLockFile,
+        wait: false,
+        onEvent: (event) => events.push(event),
+      }).catch(() => {});
+      await holder.release();
+
+      expect(events.at(-1)).toMatchObject({
+        type: "error",
+        name: "LockAcquisitionError",
+        lockPath: resolve(testLockFile),
+      });
+    });
+  });
+
+  describe("output", () => {
+    const teeFile = "/tmp/mutex-run-test-output.log";
+
+    afterEach(async () => {
+      await rm(teeFile, { force: true });
+    });
+
+    it("should report lines as the command writes them", async () => {
+      const lines: [string, number][] = [];
+      const errors: string[] = [];
+      const start = Date.now();
+      const result = await mutexRun(
+        [
+          "node",
+          "-e",
+          "console.log('first'); console.error('oops'); setTimeout(() => console.log('second'), 500)",
+        ],
+        {
+          lockFile: testLockFile,
+          stdio: "pipe",
+          onStdout: (line) => lines.push([line, Date.now() - start]),
+          onStderr: (line) => errors.push(line),
+        },
+      );
+
+      expect(lines.map(([line]) => line)).toEqual(["first", "second"]);
+      expect(errors).toEqual(["oops"]);
+      // The first line arrived well before the command finished
+      expect(lines[1]![1] - lines[0]![1]).toBeGreaterThanOrEqual(400);
+      expect(result.stdout).toBe("first\nsecond");
+      expect(result.stderr).toBe("oops");
+    });
+
+    it("should keep only the end of huge output", async () => {
+      const result = await mutexRun(
+        ["node", "-e", "for (let i = 0; i < 1000; i++) console.log(i)"],
+        { lockFile: testLockFile, stdio: "pipe", maxBuffer: 100 },
+      );
+      expect(result.stdout!.length).toBeLessThanOrEqual(100);
+      expect(result.stdout!.endsWith("998\n999")).toBe(true);
+    });
+
+    it("should pass on a huge line without a newline in pieces", async () => {
+      const maxBuffer = 1024 * 1024;
+      const pieces: number[] = [];
+      const result = await mutexRun(
+        [
+          "node",
+          "-e",
+          "for (let i = 0; i < 32; i++) process.stdout.write('x'.repeat(1 << 20))",
+        ],
+        {
+          lockFile: testLockFile,
+          stdio: "pipe",
+          maxBuffer,
+          onStdout: (line) => pieces.push(line.length),
+        },
+      );
+
+      expect(pieces.reduce((sum, length) => sum + length, 0)).toBe(32 << 20);
+      expect(Math.max(...pieces)).toBeLessThanOrEqual(2 * maxBuffer);
+      expect(result.stdout!.length).toBe(maxBuffer);
+    });
+
+    it("should tee prefixed and timestamped lines to a file", async () => {
+      await mutexRun(["node", "-e", "console.log('a'); console.log('b')"], {
+        lockFile: testLockFile,
+        stdio: "pipe",
+        outputPrefix: "[build]",
+        timestamps: true,
+        teeFile,
+      });
+
+      const lines = (await readFile(teeFile, "utf8")).trimEnd().split("\n");
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toMatch(/^\d{4}-\d\d-\d\dT[\d:.]+Z \[build\] a$/);
+      expect(lines[1]).toMatch(/ \[build\] b$/);
+    });
+  });
+
+  describe("reentrant", () => {
+    it("should tell the command about its lock", async () => {
+      const result = await mutexRun(
+        [
+          "node",
+          "-e",
+          "console.log(process.env.MUTEX_RUN_LOCK, process.env.MUTEX_RUN_SLOT)",
+        ],
+        { lockFile: testLockFile, wait: false, stdio: "pipe" },
+      );
+      expect(result.stdout).toBe(`${resolve(testLockFile)} 0`);
+    });
+
+    it("should run right away under a lock an ancestor holds", async () => {
+      const ancestor = await acquire(testLockFile, { wait: false });
+      try {
+        const result = await mutexRun(["echo", "nested"], {
+          lockFile: testLockFile,
+          wait: false,
+          env: {
+            MUTEX_RUN_LOCKS: resolve(testLockFile),
+            MUTEX_RUN_HOLDER: runId(ancestor.holder),
+          },
+        });
+        expect(result.exitCode).toBe(0);
+        expect(result.reentrant).toBe(true);
+        // The ancestor still holds it
+        expect(existsSync(`${testLockFile}.lock`)).toBe(true);
+      } finally {
+        await ancestor.release();
+      }
+    });
+
+    it("should not trust an environment whose holder is gone", async () => {
+      const other = await acquire(testLockFile, { wait: false });
+      try {
+        await expect(
+          mutexRun(["echo", "nested"], {
+            lockFile: testLockFile,
+            wait: false,
+            env: {
+              MUTEX_RUN_LOCKS: resolve(testLockFile),
+              MUTEX_RUN_HOLDER: "elsewhere:1:2020-01-01T00:00:00.000Z",
+            },
+          }),
+        ).rejects.toThrow(LockAcquisitionError);
+      } finally {
+        await other.release();
+      }
+    });
+  });
+
+  describe("signals", () => {
+    it("should not leave signal listeners behind", async () => {
+      const before = process.listenerCount("SIGINT");
+      for (let i = 0; i < 3; i++) {
+        await mutexRun(["echo", "hello"], {
+          lockFile: testLockFile,
+          wait: false,
+        });
+      }
+      expect(process.listenerCount("SIGINT")).toBe(before);
+    });
+
+    it("should stop waiting for the lock when a signal arrives", async () => {
+      const lock = await acquire(testLockFile);
+      try {
+        setTimeout(() => process.emit("SIGHUP", "SIGHUP"), 300);
+        const err = await mutexRun(["echo", "hello"], {
+          lockFile: testLockFile,
+        }).catch((e) => e);
+
+        expect(err).toBeInstanceOf(InterruptedError);
+        expect(err.signal).toBe("SIGHUP");
+      } finally {
+        await lock.release();
+      }
+    });
+
+    it("should forward signals to the command and report them", async () => {
+      setTimeout(() => process.emit("SIGHUP", "SIGHUP"), 300);
+      const result = await mutexRun(["sleep", "5"], {
+        lockFile: testLockFile,
+        wait: false,
+      });
+
+      expect(result.signal).toBe("SIGHUP");
+      expect(result.exitCode).toBe(129);
+      expect(existsSync(`${testLockFile}.lock`)).toBe(false);
+    });
+
+    it("should leave signals alone with handleSignals: false", async () => {
+      const before = process.listenerCount("SIGHUP");
+      const run = mutexRun(["sleep", "0.3"], {
+        lockFile: testLockFile,
+        wait: false,
+        handleSignals: false,
+      });
+      expect(process.listenerCount("SIGHUP")).toBe(before);
+      expect((await run).exitCode).toBe(0);
+    });
+  });
+
+  describe("runTimeout", () => {
+    it("should kill a command that runs too long and release the lock", async () => {
+      const started = Date.now();
+      const result = await mutexRun(["sleep", "5"], {
+        lockFile: testLockFile,
+        wait: false,
+        runTimeout: 300,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.exitCode).toBe(EXIT_TIMED_OUT);
+      expect(result.signal).toBeUndefined();
+      expect(Date.now() - started).toBeLessThan(3000);
+      expect(existsSync(`${testLockFile}.lock`)).toBe(false);
+    });
+
+    it("should escalate to SIGKILL when SIGTERM is ignored", async () => {
+      const started = Date.now();
+      const result = await mutexRun(
+        [
+          "node",
+          "-e",
+          "process.on('SIGTERM', () => {}); setTimeout(() => {}, 5000)",
+        ],
+        {
+          lockFile: testLockFile,
+          wait: false,
+          runTimeout: 500,
+          killGracePeriod: 200,
+        },
+      );
+
+      expect(result.timedOut).toBe(true);
+      expect(Date.now() - started).toBeLessThan(3000);
+    });
+
+    it("should not affect commands that finish in time", async () => {
+      const result = await mutexRun(["echo", "hello"], {
+        lockFile: testLockFile,
+        wait: false,
+        runTimeout: 5000,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.timedOut).toBeUndefined();
+    });
+  });
+
+  describe("concurrency", () => {
+    const slotFiles = [`${testLockFile}.1`, `${testLockFile}.2`];
+
+    afterEach(async () => {
+      for (const file of slotFiles) {
+        await unlink(file).catch(() => {});
+      }
+    });
+
+    it("should run up to N commands at once in separate slots", async () => {
+      const first = mutexRun(["sleep", "1"], {
+        lockFile: testLockFile,
+        concurrency: 2,
+        wait: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const second = await mutexRun(["echo", "second"], {
+        lockFile: testLockFile,
+        concurrency: 2,
+        wait: false,
+      });
+      expect(second.slot).toBe(1);
+      expect((await first).slot).toBe(0);
+    });
+
+    it("should fail without waiting when all slots are taken", async () => {
+      const holders = [0, 1].map(() =>
+        mutexRun(["sleep", "1"], {
+          lockFile: testLockFile,
+          concurrency: 2,
+          wait: false,
+        }),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      await expect(
+        mutexRun(["echo", "third"], {
+          lockFile: testLockFile,
+          concurrency: 2,
+          wait: false,
+        }),
+      ).rejects.toThrow("Failed to acquire lock");
+
+      const slots = (await Promise.all(holders)).map((r) => r.slot);
+      expect(slots.sort()).toEqual([0, 1]);
+    });
+
+    it("should reject an invalid concurrency", async () => {
+      await expect(
+        mutexRun(["echo", "test"], { lockFile: testLockFile, concurrency: 0 }),
+      ).rejects.toThrow("concurrency must be a positive integer");
+    });
+  });
+
+  describe("shared mode", () => {
+    afterEach(async () => {
+      await rm(`${testLockFile}.readers`, { recursive: true, force: true });
+    });
+
+    it("should let shared holders run together", async () => {
+      const first = mutexRun(["sleep", "1"], {
+        lockFile: testLockFile,
+        mode: "shared",
+        wait: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const second = await mutexRun(["echo", "reader"], {
+        lockFile: testLockFile,
+        mode: "shared",
+        wait: false,
+      });
+      expect(second.exitCode).toBe(0);
+      expect((await first).exitCode).toBe(0);
+    });
+
+    it("should keep exclusive holders out while shared holders run", async () => {
+      const reader = mutexRun(["sleep", "1"], {
+        lockFile: testLockFile,
+        mode: "shared",
+        wait: false,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const err = await mutexRun(["echo", "writer"], {
+        lockFile: testLockFile,
+        wait: false,
+      }).catch((e) => e);
+      expect(err).toBeInstanceOf(LockAcquisitionError);
+      expect(err.holder?.command).toEqual(["sleep", "1"]);
+
+      await reader;
+    });
+
+    it("should not let new shared holders starve a waiting writer", async () => {
+      const finished: string[] = [];
+      const run = (
+        name: string,
+        command: string[],
+        mode: "shared" | "exclusive",
+      ) =>
+        mutexRun(command, { lockFile: testLockFile, mode }).then(() =>
+          finished.push(name),
+        );
+
+      const first = run("first reader", ["sleep", "1.5"], "shared");
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const writer = run("writer", ["sleep", "0.2"], "exclusive");
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      const second = run("second reader", ["true"], "shared");
+
+      await Promise.all([first, writer, second]);
+      expect(finished).toEqual(["first reader", "writer", "second reader"]);
+    }, 20000);
+
+    it("should reject shared mode with concurrency > 1", async () => {
+      await expect(
+        mutexRun(["echo", "test"], {
+          lockFile: testLockFile,
+          mode: "shared",
+          concurrency: 2,
+        }),
+      ).rejects.toThrow("Shared mode cannot be combined");
+    });
+  });
+
+  describe("coalesce", () => {
+    afterEach(async () => {
+      await rm(`${testLockFile}.results`, { recursive: true, force: true });
+    });
+
+    const build = ["sh", "-c", "sleep 1; echo built; exit 3"];
+
+    it("should reuse the result of an identical run", async () => {
+      const first = mutexRun(build, {
+        lockFile: testLockFile,
+        coalesce: { replayOutput: true },
+        stdio: "pipe",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const started = Date.now();
+      const second = await mutexRun(build, {
+        lockFile: testLockFile,
+        coalesce: { replayOutput: true },
+        stdio: "pipe",
+      });
+
+      expect(second.coalesced).toBe(true);
+      expect(second.exitCode).toBe(3);
+      expect(second.stdout).toBe("built");
+      // Did not run the command a second time
+      expect(Date.now() - started).toBeLessThan(2500);
+      expect((await first).coalesced).toBeUndefined();
+    }, 10000);
+
+    it("should match runs by an explicit key", async () => {
+      const first = mutexRun(["sleep", "1"], {
+        lockFile: testLockFile,
+        coalesce: { key: "build" },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const second = await mutexRun(["echo", "other command"], {
+        lockFile: testLockFile,
+        coalesce: { key: "build" },
+        stdio: "pipe",
+      });
+      expect(second.coalesced).toBe(true);
+      expect(second.exitCode).toBe(0);
+      expect(second.stdout).toBeUndefined();
+      await first;
+    }, 10000);
+
+    it("should run the command when the holder does something else", async () => {
+      const first = mutexRun(["sleep", "1"], {
+        lockFile: testLockFile,
+        coalesce: true,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const second = await mutexRun(["echo", "different"], {
+        lockFile: testLockFile,
+        coalesce: true,
+        stdio: "pipe",
+      });
+      expect(second.coalesced).toBeUndefined();
+      expect(second.stdout).toBe("different");
+      await first;
+    }, 10000);
+  });
+
+  describe("skipIfFresh", () => {
+    const input = "/tmp/mutex-run-test-input.txt";
+
+    beforeEach(async () => {
+      await writeFile(input, "v1");
+    });
+
+    afterEach(async () => {
+      await unlink(input).catch(() => {});
+      await unlink(`${testLockFile}.last-run.json`).catch(() => {});
+    });
+
+    const run = (command: string[]) =>
+      mutexRun(command, {
+        lockFile: testLockFile,
+        wait: false,
+        skipIfFresh: { inputs: ["mutex-run-test-input.txt"] },
+        cwd: "/tmp",
+      });
+
+    it("should skip a run whose inputs are unchanged", async () => {
+      expect((await run(["true"])).skipped).toBeUndefined();
+
+      const second = await run(["true"]);
+      expect(second.skipped).toBe(true);
+      expect(second.exitCode).toBe(0);
+    });
+
+    it("should run again when the inputs change", async () => {
+      await run(["true"]);
+      await writeFile(input, "v2");
+      expect((await run(["true"])).skipped).toBeUndefined();
+    });
+
+    it("should not record failed runs", async () => {
+      expect((await run(["false"])).exitCode).toBe(1);
+      expect((await run(["false"])).skipped).toBeUndefined();
+    });
+  });
 });
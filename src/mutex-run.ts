@@ -1,45 +1,70 @@
 import { execa, type ExecaError } from "execa";
-import lockfile from "proper-lockfile";
-import { ensureFile } from "./utils";
-import { resolve } from "node:path";
-import { unlink } from "node:fs/promises";
-
-/**
- * Simple logger interface compatible with console
- */
-export interface Logger {
-  log(...args: any[]): void;
-  error?(...args: any[]): void;
-  info?(...args: any[]): void;
-}
+import { open } from "node:fs/promises";
+import type { Writable } from "node:stream";
+import {
+  acquireAll,
+  lockOrder,
+  releaseAll,
+  LockAcquisitionError,
+  type LockHandle,
+  type LockOptions,
+  type Logger,
+} from "./lock";
+import {
+  coalesceKey,
+  readRunResult,
+  runId,
+  writeRunResult,
+  type RunResult,
+} from "./coalesce";
+import {
+  fingerprint,
+  isFresh,
+  readLastRun,
+  writeLastRun,
+  type SkipIfFreshOptions,
+} from "./fresh";
+import { exitCodeForSignal, trapSignals } from "./signals";
+import {
+  eventEmitter,
+  STILL_WAITING_INTERVAL,
+  type MutexRunEvent,
+} from "./events";
+import { parseDuration, type Duration } from "./utils";
+import { commandLockName, namedLock } from "./names";
+import { historyRecorder } from "./history";
+import { inheritedLocks, lockEnv } from "./reentrant";
+import { SOCKET_ENV } from "./daemon";
+import { DEFAULT_MAX_BUFFER, streamOutput } from "./output";
+import { applyProfile, loadProfile } from "./config";
+
+/** Exit code reported for a command killed by runTimeout (as timeout(1) uses) */
+export const EXIT_TIMED_OUT = 124;
 
 /**
  * Options for mutexRun
  */
-export interface MutexRunOptions {
+export interface MutexRunOptions extends LockOptions {
   /**
-   * Lock file path (relative or absolute)
+   * Lock file path (relative or absolute). Pass several to hold all of them
+   * while the command runs (see acquireAll); coalescing and skipIfFresh
+   * records are kept next to the first one in lock order.
    * @default ".mutex-run.lock"
    */
-  lockFile?: string;
+  lockFile?: string | string[];
 
   /**
-   * Wait for lock instead of failing immediately
-   * @default true
+   * Name of a lock in the shared lock directory (see lockDir), e.g. "build";
+   * pass several to hold all of them. Combines with lockFile.
    */
-  wait?: boolean;
+  name?: string | string[];
 
   /**
-   * Overall timeout in milliseconds (0 = no timeout)
-   * @default 0
+   * Use a named lock derived from the command and cwd, so the same command
+   * in the same directory never runs twice at once without any configuration
+   * @default false
    */
-  timeout?: number;
-
-  /**
-   * Consider locks older than this stale (milliseconds)
-   * @default 600000 (10 minutes)
-   */
-  staleTimeout?: number;
+  nameFromCommand?: boolean;
 
   /**
    * Working directory for command execution
@@ -51,11 +76,6 @@ export interface MutexRunOptions {
    */
   env?: Record<string, string>;
 
-  /**
-   * Optional logger for diagnostics (must have at least a log method)
-   */
-  logger?: Logger;
-
   /**
    * Use shell to execute command (auto-enabled on Windows)
    */
@@ -66,6 +86,136 @@ export interface MutexRunOptions {
    * @default "inherit"
    */
   stdio?: "inherit" | "pipe" | "ignore";
+
+  /**
+   * Called with every line the command writes to stdout (without the line
+   * ending) as soon as it is written, unless stdio is "ignore"
+   */
+  onStdout?: (line: string) => void;
+
+  /**
+   * Called with every line the command writes to stderr, like onStdout
+   */
+  onStderr?: (line: string) => void;
+
+  /**
+   * Put this before every line of output passed on to the terminal or
+   * teeFile, e.g. "[build]"
+   */
+  outputPrefix?: string;
+
+  /**
+   * Put the time (ISO 8601) before every line of output passed on to the
+   * terminal or teeFile
+   * @default false
+   */
+  timestamps?: boolean;
+
+  /**
+   * Also append the command's stdout and stderr to this file, as passed on
+   * to the terminal
+   */
+  teeFile?: string;
+
+  /**
+   * Most characters of stdout and of stderr kept when output is captured
+   * (stdio "pipe", or replayOutput); earlier output is dropped
+   * @default 10485760 (10 MiB)
+   */
+  maxBuffer?: number;
+
+  /**
+   * Kill the command when it runs longer than this (0 = no limit), so a hung
+   * command cannot hold the lock forever. It is sent SIGTERM, then SIGKILL
+   * once killGracePeriod has passed. Milliseconds or a duration such as "30m".
+   * @default 0
+   */
+  runTimeout?: Duration;
+
+  /**
+   * How long a timed-out command may take to exit after SIGTERM before it is
+   * sent SIGKILL; milliseconds or a duration such as "10s"
+   * @default 5000
+   */
+  killGracePeriod?: Duration;
+
+  /**
+   * Listen for SIGINT, SIGTERM, SIGHUP and SIGQUIT for the duration of the
+   * call: they cancel waiting for the lock (with an InterruptedError) and are
+   * forwarded to the command once it runs. Turn off when the application
+   * handles signals itself.
+   * @default true
+   */
+  handleSignals?: boolean;
+
+  /**
+   * Don't re-run the command when an identical run holds the lock: wait for
+   * it to finish and return its exit code instead. `true` matches runs by
+   * command and cwd; pass an object to supply your own key or to replay the
+   * holder's output. Only holders that also coalesce can be matched.
+   * @default false
+   */
+  coalesce?: boolean | CoalesceOptions;
+
+  /**
+   * Skip the command (exit code 0) when the last successful run under this
+   * lock had the same command, cwd and inputs fingerprint, and is within the TTL
+   */
+  skipIfFresh?: SkipIfFreshOptions;
+
+  /**
+   * Name of a profile in the config file whose options to use. Options
+   * passed here override the profile's (env is merged).
+   */
+  profile?: string;
+
+  /**
+   * Config file to read the profile from
+   * @default the closest mutex-run.config.json, or package.json with a
+   *   "mutex-run" key, in cwd or its parents
+   */
+  configPath?: string;
+
+  /**
+   * Called with a structured event at each step of the run: waiting,
+   * acquiring, running, releasing and failing (see MutexRunEvent)
+   */
+  onEvent?: (event: MutexRunEvent) => void;
+
+  /**
+   * Append a record of the run (wait and hold time, exit code, command and
+   * host) to the history next to the lock, `<lock>.history.ndjson`, for
+   * `mutex-run stats`. With several locks, the first in lock order keeps it.
+   * @default false
+   */
+  history?: boolean;
+
+  /**
+   * Run right away when an ancestor mutexRun (e.g. the mutex-run whose
+   * command called this one) holds the lock, instead of deadlocking on it.
+   * mutexRun passes its locks to the command in MUTEX_RUN_LOCKS and
+   * MUTEX_RUN_HOLDER, along with MUTEX_RUN_LOCK, MUTEX_RUN_WAITED_MS and
+   * MUTEX_RUN_SLOT for the command's own use.
+   * @default true
+   */
+  reentrant?: boolean;
+}
+
+/**
+ * Options for coalescing identical runs
+ */
+export interface CoalesceOptions {
+  /**
+   * Key identifying identical runs
+   * @default hash of the command and cwd
+   */
+  key?: string;
+
+  /**
+   * Capture the output of the run so that coalesced waiters can replay it
+   * @default false
+   */
+  replayOutput?: boolean;
 }
 
 /**
@@ -77,6 +227,41 @@ export interface MutexRunResult {
    */
   exitCode: number;
 
+  /**
+   * True when the command was not run because an identical run finished
+   * while waiting; exitCode (and replayed output) come from that run
+   */
+  coalesced?: boolean;
+
+  /**
+   * True when the command was not run because the last successful run had
+   * the same inputs (see skipIfFresh)
+   */
+  skipped?: boolean;
+
+  /**
+   * True when the command was killed for exceeding runTimeout; exitCode is
+   * EXIT_TIMED_OUT then
+   */
+  timedOut?: boolean;
+
+  /**
+   * Signal that terminated the command, if any; exitCode is 128 + its number
+   * then, as a shell would report it. Not set when the command timed out.
+   */
+  signal?: NodeJS.Signals;
+
+  /**
+   * True when every lock was already held by an ancestor run (see
+   * MutexRunOptions.reentrant), so the command ran without taking any
+   */
+  reentrant?: boolean;
+
+  /**
+   * Semaphore slot the command ran in (always 0 when concurrency is 1)
+   */
+  slot: number;
+
   /**
    * stdout output (only if stdio is "pipe")
    */
@@ -94,6 +279,12 @@ export interface MutexRunResult {
  * @param command - Command to execute (string or array of [command, ...args])
  * @param options - Configuration options
  * @returns Promise resolving to command result with exit code
+ * @throws ConfigError if the profile could not be loaded,
+ *   LockAcquisitionError if the lock could not be acquired,
+ *   InterruptedError if a signal arrived before the command started, the
+ *   signal's reason if options.signal aborts while the command runs, or
+ *   LockLostError if a lock is lost while it runs (the command is
+ *   terminated either way)
  *
  * @example
  * ```ts
@@ -112,6 +303,49 @@ export interface MutexRunResult {
 export async function mutexRun(
   command: string | string[],
   options: MutexRunOptions = {},
+): Promise<MutexRunResult> {
+  if (options.profile) {
+    const profile = await loadProfile(options.profile, {
+      configPath: options.configPath,
+      cwd: options.cwd,
+    });
+    options = applyProfile(profile, options);
+  }
+
+  const recorder = options.history ? historyRecorder(options.cwd) : undefined;
+  if (recorder) {
+    const { onEvent } = options;
+    options = {
+      ...options,
+      onEvent: (event) => {
+        recorder.onEvent(event);
+        onEvent?.(event);
+      },
+    };
+  }
+
+  const signals = options.handleSignals === false ? undefined : trapSignals();
+  try {
+    return await runWithLock(command, options, signals);
+  } catch (err) {
+    eventEmitter(options.onEvent)({
+      type: "error",
+      name: err instanceof Error ? err.name : "Error",
+      message: err instanceof Error ? err.message : String(err),
+      lockPath: err instanceof LockAcquisitionError ? err.lockPath : undefined,
+    });
+    throw err;
+  } finally {
+    signals?.dispose();
+    // The history is best-effort; it must not fail the run
+    await recorder?.save().catch(() => {});
+  }
+}
+
+async function runWithLock(
+  command: string | string[],
+  options: MutexRunOptions,
+  signals: ReturnType<typeof trapSignals> | undefined,
 ): Promise<MutexRunResult> {
   // Parse command
   const isStringCommand = typeof command === "string";
@@ -123,12 +357,9 @@ export async function mutexRun(
   const childCmd = cmdArray[0]!;
   const childArgs = cmdArray.slice(1);
 
-  // Set defaults
-  const lockFile = options.lockFile ?? ".mutex-run.lock";
-  const wait = options.wait ?? true;
-  const timeout = options.timeout ?? 0;
-  const staleTimeout = options.staleTimeout ?? 600000; // 10 minutes
   const stdio = options.stdio ?? "inherit";
+  const runTimeout = parseDuration(options.runTimeout ?? 0);
+  const killGracePeriod = parseDuration(options.killGracePeriod ?? 5000);
   // If command is a string, use shell by default to parse it
   // Otherwise, only use shell on Windows
   const shell =
@@ -140,122 +371,423 @@ export async function mutexRun(
     error: () => {},
     info: () => {},
   };
+  const emit = eventEmitter(options.onEvent);
+
+  const lockPaths = lockOrder(await resolveLockFiles(options, cmdArray));
+  const lockPath = lockPaths[0]!;
+
+  // Locks an ancestor run holds are ours already; waiting would deadlock
+  const parentEnv = { ...process.env, ...options.env };
+  const inherited =
+    options.reentrant === false
+      ? []
+      : await inheritedLocks(
+          lockPaths,
+          {
+            staleTimeout: options.staleTimeout,
+            staleCheck: options.staleCheck,
+            socket: options.socket,
+            backend: options.backend,
+          },
+          parentEnv,
+        );
+  const toAcquire = lockPaths.filter((path) => !inherited.includes(path));
+  if (inherited.length > 0) {
+    log.log?.(`held by an ancestor run: ${inherited.join(", ")}`);
+  }
 
-  // Retry configuration (hardcoded defaults)
-  const retryInterval = 1000; // 1 second
-  const maxRetryInterval = 3000; // 3 seconds
-  const factor = 1.1;
-
-  // Calculate retry count based on wait flag
-  // If wait=true, retry for ~1 hour (3600000ms / maxRetryInterval)
-  // If wait=false, fail immediately (retries=0)
-  const retries = wait ? Math.floor(3600000 / maxRetryInterval) : 0;
+  // Nobody else can be running the same work under locks we already hold
+  const coalesce =
+    toAcquire.length === 0
+      ? undefined
+      : options.coalesce === true
+        ? {}
+        : options.coalesce || undefined;
+  const key = coalesce
+    ? (coalesce.key ?? coalesceKey(cmdArray, options.cwd))
+    : undefined;
+
+  // While waiting, look out for a holder doing the same work and, once it
+  // has published its result, stop waiting and use that instead
+  const coalesceController = new AbortController();
+  let matchedRun: string | undefined;
+  let coalescedWith: RunResult | undefined;
+  const checkResult = async () => {
+    if (!key || !matchedRun || coalescedWith) return;
+    const result = await readRunResult(lockPath, key);
+    if (result?.runId === matchedRun) {
+      coalescedWith = result;
+      coalesceController.abort(new Error("Coalesced with an identical run"));
+    }
+  };
+  const resultPoll = key ? setInterval(checkResult, 1000) : undefined;
 
-  // Resolve lock path and ensure the lock target exists
-  const lockPath = resolve(lockFile);
-  await ensureFile(lockPath);
+  const waitStart = Date.now();
+  emit({ type: "wait-start", lockPaths, command: cmdArray });
+  let lastWaiting: { holder: string; at: number } | undefined;
 
-  let release: undefined | (() => Promise<void>);
-  const cleanup = async (signal?: NodeJS.Signals) => {
-    try {
-      log.log?.("cleanup start", signal ? `(${signal})` : "");
-      if (release) await release();
-      log.log?.("lock released");
-      await unlink(lockPath);
-      log.log?.("lockfile removed");
-    } catch (err) {
-      log.log?.("cleanup error:", err);
-      // Errors during cleanup are non-fatal
+  let locks: LockHandle[];
+  try {
+    locks =
+      toAcquire.length === 0
+        ? []
+        : await acquireAll(toAcquire, {
+            ...options,
+            command: cmdArray,
+            coalesceKey: key,
+            signal: AbortSignal.any(
+              [
+                options.signal,
+                coalesceController.signal,
+                signals?.signal,
+              ].filter((signal) => signal !== undefined),
+            ),
+            onHolder: (holder, heldLock) => {
+              if (key && holder.coalesceKey === key) {
+                if (!matchedRun) {
+                  log.log?.(
+                    "identical run holds the lock, waiting for its result",
+                  );
+                }
+                matchedRun = runId(holder);
+              }
+
+              const now = Date.now();
+              if (
+                lastWaiting?.holder !== runId(holder) ||
+                now - lastWaiting.at >= STILL_WAITING_INTERVAL
+              ) {
+                lastWaiting = { holder: runId(holder), at: now };
+                emit({
+                  type: "still-waiting",
+                  lockPath: heldLock,
+                  holder,
+                  waitedMs: now - waitStart,
+                });
+              }
+              options.onHolder?.(holder, heldLock);
+            },
+            onQueue: (position, length) => {
+              emit({ type: "queued", position, length });
+              options.onQueue?.(position, length);
+            },
+          });
+  } catch (err) {
+    if (coalescedWith && err instanceof LockAcquisitionError) {
+      emit({ type: "coalesced", exitCode: coalescedWith.exitCode });
+      return replayRun(coalescedWith, 0, stdio, log);
     }
+    if (signals?.signal.aborted) throw signals.signal.reason;
+    throw err;
+  } finally {
+    clearInterval(resultPoll);
+  }
+  // Undefined when every lock is held by an ancestor
+  const lock = locks[0] as LockHandle | undefined;
+  const slot = lock?.slot ?? 0;
+  const acquiredAt = Date.now();
+  const waitedMs = acquiredAt - waitStart;
+  emit({
+    type: "acquired",
+    lockPaths,
+    slot,
+    waitedMs,
+    inherited: inherited.length > 0 ? inherited : undefined,
+  });
+  const release = async () => {
+    await releaseAll(locks);
+    emit({ type: "released", lockPaths, heldMs: Date.now() - acquiredAt });
   };
 
-  // Acquire lock
-  try {
-    const lockOpts: Parameters<typeof lockfile.lock>[1] = {
-      realpath: false, // allow locking a path we just created
-      stale: staleTimeout, // auto-clear stale locks
-      retries: wait
-        ? {
-            retries: retries,
-            factor: factor,
-            minTimeout: retryInterval,
-            maxTimeout: maxRetryInterval,
-          }
-        : 0,
-    };
+  // The identical run may have finished just as we took the lock
+  await checkResult();
+  if (coalescedWith) {
+    emit({ type: "coalesced", exitCode: coalescedWith.exitCode });
+    await release();
+    return replayRun(coalescedWith, slot, stdio, log);
+  }
 
-    log.log?.(`acquiring lock at ${lockPath}`);
-    if (wait) {
-      log.log?.(
-        `will wait for lock (timeout=${timeout}ms, max wait time ~${Math.floor((retries * maxRetryInterval) / 60000)}min)`,
+  // Skip the run when the last successful one saw the same inputs
+  let inputsFingerprint: string | undefined;
+  if (options.skipIfFresh) {
+    try {
+      inputsFingerprint = await fingerprint(
+        cmdArray,
+        options.cwd ?? process.cwd(),
+        options.skipIfFresh,
       );
+    } catch (err) {
+      await release();
+      throw err;
     }
 
-    // Wrap lock acquisition with overall timeout if specified
-    const lockPromise = lockfile.lock(lockPath, lockOpts);
-
-    if (timeout > 0) {
-      const timeoutPromise = new Promise<never>((_, reject) =>
-        setTimeout(
-          () =>
-            reject(new Error(`Lock acquisition timeout after ${timeout}ms`)),
-          timeout,
-        ),
-      );
-      release = await Promise.race([lockPromise, timeoutPromise]);
-    } else {
-      release = await lockPromise;
+    const ttl = parseDuration(options.skipIfFresh.ttl ?? 0, {
+      unbounded: true,
+    });
+    if (isFresh(await readLastRun(lockPath), inputsFingerprint, ttl)) {
+      log.log?.("inputs unchanged since the last successful run, skipping");
+      emit({ type: "skipped" });
+      await release();
+      return { exitCode: 0, skipped: true, slot };
     }
+  }
 
-    log.log?.("lock acquired");
-  } catch (err) {
-    const errorMsg = `Failed to acquire lock at: ${lockPath}`;
-    log.error?.(errorMsg);
-    throw new Error(errorMsg, { cause: err });
+  // Capture output for replaying it to coalesced waiters, while still
+  // passing it through when it is inherited
+  const captureOutput = coalesce?.replayOutput && stdio !== "ignore";
+  // Output is read as it comes only when needed, so that otherwise the
+  // command writes to the terminal itself (and sees that it is one)
+  const streaming =
+    stdio === "pipe" ||
+    (stdio === "inherit" &&
+      (captureOutput ||
+        options.onStdout !== undefined ||
+        options.onStderr !== undefined ||
+        options.outputPrefix !== undefined ||
+        options.timestamps ||
+        options.teeFile !== undefined));
+  const stdioOptions = streaming
+    ? ({
+        stdin: stdio,
+        stdout: "pipe",
+        stderr: "pipe",
+        buffer: false,
+      } as const)
+    : { stdio };
+
+  // Interrupted after taking the lock, but before the command started
+  if (signals?.signal.aborted) {
+    await release();
+    throw signals.signal.reason;
+  }
+
+  let tee: Writable | undefined;
+  if (options.teeFile && stdio !== "ignore") {
+    try {
+      tee = (await open(options.teeFile, "a")).createWriteStream();
+    } catch (err) {
+      await release();
+      throw err;
+    }
   }
 
   // Launch child command
   log.log?.(`exec: ${childCmd} ${childArgs.join(" ")}`);
 
+  let exitCode: number;
+  let timedOut = false;
+  let signal: NodeJS.Signals | undefined;
+  let stdout: string | undefined;
+  let stderr: string | undefined;
+  let outputs: ReturnType<typeof streamOutput>[] = [];
+  const cancelSignals = [
+    options.signal,
+    ...locks.map((held) => held.signal),
+  ].filter((cancel) => cancel !== undefined);
+  const childStart = Date.now();
   try {
     const child = execa(childCmd, childArgs, {
-      stdio,
+      ...stdioOptions,
       shell,
       cwd: options.cwd,
-      env: options.env,
+      // Let nested runs know what we hold (see reentrant), and take their
+      // locks from the same daemon
+      env: {
+        ...options.env,
+        ...(options.socket && { [SOCKET_ENV]: options.socket }),
+        ...lockEnv(
+          {
+            lockPaths,
+            holders: locks.map((held) => held.holder),
+            waitedMs,
+            slot,
+          },
+          parentEnv,
+        ),
+      },
+      // Aborting, or losing a lock, also terminates the command (SIGTERM)
+      cancelSignal: AbortSignal.any(cancelSignals),
+      // Past the run timeout: SIGTERM, then SIGKILL after the grace period
+      timeout: runTimeout > 0 ? runTimeout : undefined,
+      forceKillAfterDelay: killGracePeriod,
     });
 
-    // If parent receives a signal, forward to child
-    const forward = (sig: NodeJS.Signals) => {
+    emit({ type: "child-start", command: cmdArray, pid: child.pid });
+
+    if (streaming) {
+      const output = {
+        tee,
+        prefix: options.outputPrefix,
+        timestamps: options.timestamps,
+        capture: stdio === "pipe" || captureOutput,
+        maxBuffer: options.maxBuffer,
+      };
+      outputs = [
+        streamOutput(child.stdout!, {
+          ...output,
+          onLine: options.onStdout,
+          passThrough: stdio === "inherit" ? process.stdout : undefined,
+        }),
+        streamOutput(child.stderr!, {
+          ...output,
+          onLine: options.onStderr,
+          passThrough: stdio === "inherit" ? process.stderr : undefined,
+        }),
+      ];
+    }
+
+    // From now on, signals we receive are meant for the command
+    signals?.forwardTo((sig) => {
+      log.log?.(`forwarding ${sig} to the command`);
       try {
         child.kill(sig);
       } catch (err) {
         log.log?.(`failed to forward signal ${sig}:`, err);
         // Child may have already exited, this is non-fatal
       }
-    };
-    process.on("SIGINT", forward);
-    process.on("SIGTERM", forward);
+    });
 
     const res = await child;
 
-    await cleanup();
-
-    return {
-      exitCode: res.exitCode ?? 0,
-      stdout: stdio === "pipe" ? res.stdout : undefined,
-      stderr: stdio === "pipe" ? res.stderr : undefined,
-    };
+    exitCode = res.exitCode ?? 0;
   } catch (err: any) {
-    await cleanup();
+    if (err?.timedOut) {
+      log.log?.(`command timed out after ${runTimeout}ms, killed`);
+      timedOut = true;
+    }
 
-    // execa throws with exit code info; normalize and return
-    const exitCode = typeof err?.exitCode === "number" ? err.exitCode : 1;
+    // A command killed for running too long is reported as timed out, not as
+    // terminated by the signal we killed it with
+    signal = timedOut ? undefined : err?.signal;
+
+    // execa throws with exit code info; normalize
+    exitCode = timedOut
+      ? EXIT_TIMED_OUT
+      : typeof err?.exitCode === "number"
+        ? err.exitCode
+        : signal
+          ? exitCodeForSignal(signal)
+          : 1;
+
+    // Cancelled through options.signal, or because a lock was lost: surface
+    // why, like other APIs do
+    const cancelled = cancelSignals.find((cancel) => cancel.aborted);
+    if (err?.isCanceled && cancelled) {
+      tee?.end();
+      emit({
+        type: "child-exit",
+        exitCode,
+        signal,
+        durationMs: Date.now() - childStart,
+      });
+      await release();
+      throw cancelled.reason;
+    }
+  }
 
-    return {
-      exitCode,
-      stdout: stdio === "pipe" ? err?.stdout : undefined,
-      stderr: stdio === "pipe" ? err?.stderr : undefined,
-    };
+  // Take in the last of the output before looking at it
+  await Promise.all(outputs.map((output) => output.done));
+  if (outputs.length > 0) {
+    const [out, err] = outputs.map((output) => output.captured());
+    stdout = out!.output;
+    stderr = err!.output;
+    if (out!.truncated || err!.truncated) {
+      log.log?.(
+        `output exceeded ${options.maxBuffer ?? DEFAULT_MAX_BUFFER} characters, kept the end`,
+      );
+    }
+  }
+  await new Promise<void>((resolve) => (tee ? tee.end(resolve) : resolve()));
+  emit({
+    type: "child-exit",
+    exitCode,
+    signal,
+    timedOut: timedOut || undefined,
+    durationMs: Date.now() - childStart,
+  });
+
+  // Publish the result for identical waiters before letting go of the lock
+  if (key && lock) {
+    try {
+      await writeRunResult(lockPath, {
+        key,
+        runId: runId(lock.holder),
+        exitCode,
+        finishedAt: new Date().toISOString(),
+        stdout: captureOutput ? stdout : undefined,
+        stderr: captureOutput ? stderr : undefined,
+      });
+    } catch (err) {
+      log.log?.("failed to write run result:", err);
+    }
   }
+
+  if (inputsFingerprint && exitCode === 0) {
+    try {
+      await writeLastRun(lockPath, {
+        fingerprint: inputsFingerprint,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      log.log?.("failed to record successful run:", err);
+    }
+  }
+
+  await release();
+
+  return {
+    exitCode,
+    timedOut: timedOut || undefined,
+    signal,
+    reentrant: toAcquire.length === 0 || undefined,
+    slot,
+    stdout: stdio === "pipe" ? stdout : undefined,
+    stderr: stdio === "pipe" ? stderr : undefined,
+  };
+}
+
+/** All lock files a run needs: plain paths plus named locks. */
+export async function resolveLockFiles(
+  options: Pick<
+    MutexRunOptions,
+    "lockFile" | "name" | "nameFromCommand" | "cwd"
+  >,
+  command: string[],
+) {
+  const names = [options.name ?? []].flat();
+  if (options.nameFromCommand) {
+    names.push(commandLockName(command, options.cwd));
+  }
+
+  const lockFiles = [options.lockFile ?? []].flat();
+  for (const name of names) {
+    lockFiles.push(await namedLock(name));
+  }
+  return lockFiles.length > 0 ? lockFiles : [".mutex-run.lock"];
+}
+
+/** Turn the published result of an identical run into our own result. */
+function replayRun(
+  result: RunResult,
+  slot: number,
+  stdio: "inherit" | "pipe" | "ignore",
+  log: Logger,
+): MutexRunResult {
+  log.log?.(`coalesced with identical run, exit code ${result.exitCode}`);
+  if (stdio === "inherit") {
+    if (result.stdout) process.stdout.write(withNewline(result.stdout));
+    if (result.stderr) process.stderr.write(withNewline(result.stderr));
+  }
+  return {
+    exitCode: result.exitCode,
+    coalesced: true,
+    slot,
+    stdout: stdio === "pipe" ? result.stdout : undefined,
+    stderr: stdio === "pipe" ? result.stderr : undefined,
+  };
+}
+
+/** Captured output is kept without its final newline (see streamOutput). */
+function withNewline(output: string) {
+  return output.endsWith("\n") ? output : `${output}\n`;
 }
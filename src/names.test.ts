@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { commandLockName, lockDir, namedLock, sanitizeLockName } from "./names";
+import { mutexRun } from "./mutex-run";
+import { rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+describe("lockDir", () => {
+  it("prefers MUTEX_RUN_DIR, then XDG_RUNTIME_DIR", () => {
+    expect(
+      lockDir({ MUTEX_RUN_DIR: "/srv/locks", XDG_RUNTIME_DIR: "/run/user/1" }),
+    ).toBe("/srv/locks");
+    expect(lockDir({ XDG_RUNTIME_DIR: "/run/user/1" })).toBe(
+      "/run/user/1/mutex-run",
+    );
+  });
+
+  it("falls back to a per-user directory in the temp dir", () => {
+    expect(lockDir({})).toMatch(
+      new RegExp(`^${join(tmpdir(), "mutex-run-")}.+`),
+    );
+  });
+});
+
+describe("sanitizeLockName", () => {
+  it("keeps simple names", () => {
+    expect(sanitizeLockName("build")).toBe("build");
+    expect(sanitizeLockName("web_app.deploy-1")).toBe("web_app.deploy-1");
+  });
+
+  it("cannot escape the lock directory", () => {
+    expect(sanitizeLockName("../../etc/passwd")).toBe("etc-passwd");
+    expect(sanitizeLockName("my build")).toBe("my-build");
+  });
+
+  it("rejects names with nothing usable", () => {
+    expect(() => sanitizeLockName("")).toThrow("Invalid lock name");
+    expect(() => sanitizeLockName("/..")).toThrow("Invalid lock name");
+  });
+});
+
+describe("commandLockName", () => {
+  it("is the same for the same command and cwd", () => {
+    expect(commandLockName(["pnpm", "build"], "/repo")).toBe(
+      commandLockName(["pnpm", "build"], "/repo"),
+    );
+    expect(commandLockName(["pnpm", "build"], "/repo")).toMatch(
+      /^pnpm-[0-9a-f]{16}$/,
+    );
+  });
+
+  it("differs between directories and commands", () => {
+    const name = commandLockName(["pnpm", "build"], "/repo");
+    expect(commandLockName(["pnpm", "build"], "/other")).not.toBe(name);
+    expect(commandLockName(["pnpm", "test"], "/repo")).not.toBe(name);
+  });
+});
+
+describe("named locks", () => {
+  const dir = "/tmp/mutex-run-test-names/locks";
+  const previous = process.env.MUTEX_RUN_DIR;
+
+  beforeEach(() => {
+    process.env.MUTEX_RUN_DIR = dir;
+  });
+
+  afterEach(async () => {
+    if (previous === undefined) {
+      delete process.env.MUTEX_RUN_DIR;
+    } else {
+      process.env.MUTEX_RUN_DIR = previous;
+    }
+    await rm("/tmp/mutex-run-test-names", { recursive: true, force: true });
+  });
+
+  it("creates the lock directory for the current user only", async () => {
+    expect(await namedLock("build")).toBe(join(dir, "build.lock"));
+    expect((await stat(dir)).mode & 0o777).toBe(0o700);
+  });
+
+  it("runs commands under a named lock", async () => {
+    const result = await mutexRun(
+      [
+        "node",
+        "-e",
+        `process.exit(require("node:fs").existsSync("${dir}/build.lock.lock") ? 0 : 1)`,
+      ],
+      { name: "build", wait: false },
+    );
+    expect(result.exitCode).toBe(0);
+  });
+});
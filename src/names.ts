@@ -0,0 +1,104 @@
+import { lstat, mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join, resolve } from "node:path";
+import { coalesceKey } from "./coalesce";
+import { currentUser } from "./holder";
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Directory holding named locks: `$MUTEX_RUN_DIR`, else
+ * `$XDG_RUNTIME_DIR/mutex-run`, else a per-user directory in the system's
+ * temporary directory
+ */
+export function lockDir(env: NodeJS.ProcessEnv = process.env) {
+  if (env.MUTEX_RUN_DIR) return resolve(env.MUTEX_RUN_DIR);
+  if (env.XDG_RUNTIME_DIR) return join(env.XDG_RUNTIME_DIR, "mutex-run");
+  return join(tmpdir(), `mutex-run-${userDirSuffix()}`);
+}
+
+/**
+ * Turn a lock name into a safe file name: anything but letters, digits, ".",
+ * "_" and "-" becomes "-", and leading dots are dropped so a name can't
+ * point outside the lock directory.
+ *
+ * @throws Error if nothing usable is left of the name
+ */
+export function sanitizeLockName(name: string) {
+  const sanitized = name
+    .replace(/[^\w.-]+/g, "-")
+    .replace(/^[.-]+/, "")
+    .slice(0, MAX_NAME_LENGTH);
+  if (!sanitized) {
+    throw new Error(`Invalid lock name: ${JSON.stringify(name)}`);
+  }
+  return sanitized;
+}
+
+/** Path of a named lock, without creating anything. */
+export function namedLockPath(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  return join(lockDir(env), `${sanitizeLockName(name)}.lock`);
+}
+
+/**
+ * Resolve a lock name to its path in the lock directory (see lockDir),
+ * creating the directory if needed. A directory we create is only accessible
+ * to the current user.
+ *
+ * @param name - Lock name, e.g. "build"
+ * @returns Absolute path of the lock file, ready to pass to acquire
+ * @throws Error if the name is unusable, or the temporary lock directory
+ *   belongs to another user
+ */
+export async function namedLock(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  const dir = lockDir(env);
+  await mkdir(dir, { recursive: true, mode: 0o700 });
+
+  const dirStat = await lstat(dir);
+  if (!dirStat.isDirectory()) {
+    throw new Error(`Lock directory is not a directory: ${dir}`);
+  }
+  // Anyone can create our fallback directory in /tmp before we do; don't use
+  // one somebody else owns. Directories set by the environment are trusted.
+  const uid = process.getuid?.();
+  if (
+    !env.MUTEX_RUN_DIR &&
+    !env.XDG_RUNTIME_DIR &&
+    uid !== undefined &&
+    dirStat.uid !== uid
+  ) {
+    throw new Error(`Lock directory is owned by another user: ${dir}`);
+  }
+
+  return namedLockPath(name, env);
+}
+
+/**
+ * Lock name derived from a command and its working directory, so that the
+ * same command in the same directory always uses the same lock,
+ * e.g. "pnpm-3f2a9c0d1e4b5a6f"
+ */
+export function commandLockName(
+  command: string[],
+  cwd: string = process.cwd(),
+) {
+  const program = basename(command[0] ?? "");
+  return sanitizeLockName(`${program}-${coalesceKey(command, cwd)}`);
+}
+
+/** The current user as part of a file name, else their uid. */
+function userDirSuffix() {
+  const user = currentUser();
+  try {
+    if (user) return sanitizeLockName(user);
+  } catch {
+    // Nothing usable is left of the name
+  }
+  return `${process.getuid?.() ?? "user"}`;
+}
@@ -0,0 +1,121 @@
+import type { Readable, Writable } from "node:stream";
+import { finished } from "node:stream/promises";
+
+/** Most characters kept of each stream when capturing output, by default. */
+export const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024; // 10 MiB
+
+/**
+ * What to do with one output stream of the command
+ */
+export interface OutputOptions {
+  /**
+   * Called with every line (without its line ending). Lines longer than
+   * maxBuffer come in pieces.
+   */
+  onLine?: (line: string) => void;
+
+  /** Where to pass the output on to, e.g. process.stdout */
+  passThrough?: Writable;
+
+  /** Another place to copy the passed-on output to, e.g. a log file */
+  tee?: Writable;
+
+  /** Put before every line that is passed on, e.g. "[build]" */
+  prefix?: string;
+
+  /** Put the time before every line that is passed on */
+  timestamps?: boolean;
+
+  /** Keep the output for the result, up to maxBuffer characters */
+  capture?: boolean;
+
+  /** Most characters to keep; older output is dropped first */
+  maxBuffer?: number;
+}
+
+/**
+ * Consume an output stream of the command as it is written
+ *
+ * @returns done, which settles once the stream has ended, and captured to
+ *   get what was kept of the output (without a final newline, like execa)
+ */
+export function streamOutput(stream: Readable, options: OutputOptions) {
+  const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+  const formatted = options.prefix !== undefined || options.timestamps;
+
+  let captured = "";
+  let truncated = false;
+  let partial = "";
+
+  const write = (text: string) => {
+    options.passThrough?.write(text);
+    options.tee?.write(text);
+  };
+  const format = (line: string) =>
+    [
+      options.timestamps ? new Date().toISOString() : undefined,
+      options.prefix,
+      line,
+    ]
+      .filter((part) => part !== undefined)
+      .join(" ");
+
+  const onLine = (line: string) => {
+    options.onLine?.(line);
+    if (formatted) write(`${format(line)}\n`);
+  };
+
+  stream.setEncoding("utf8");
+  stream.on("data", (chunk: string) => {
+    if (options.capture) {
+      captured += chunk;
+      // Trim in batches, so that huge outputs aren't copied on every chunk
+      if (captured.length > 2 * maxBuffer) {
+        captured = captured.slice(-maxBuffer);
+        truncated = true;
+      }
+    }
+    // Without formatting, pass the output on as is (including unfinished
+    // lines such as progress bars)
+    if (!formatted) write(chunk);
+
+    // Only the new chunk is searched, so a long line is not split over and
+    // over again
+    const newline = chunk.lastIndexOf("\n");
+    if (newline === -1) {
+      partial += chunk;
+    } else {
+      const lines = (partial + chunk.slice(0, newline)).split("\n");
+      partial = chunk.slice(newline + 1);
+      for (const line of lines) onLine(line.replace(/\r$/, ""));
+    }
+    // Output that never ends its line is passed on in pieces
+    if (partial.length > maxBuffer) {
+      onLine(partial);
+      partial = "";
+    }
+  });
+
+  const done = finished(stream)
+    .catch(() => {
+      // The command's exit is reported on its own
+    })
+    .then(() => {
+      if (partial) onLine(partial.replace(/\r$/, ""));
+      partial = "";
+    });
+
+  return {
+    done,
+    captured: () => {
+      if (captured.length > maxBuffer) {
+        captured = captured.slice(-maxBuffer);
+        truncated = true;
+      }
+      return {
+        output: captured.endsWith("\n") ? captured.slice(0, -1) : captured,
+        truncated,
+      };
+    },
+  };
+}
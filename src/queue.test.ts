@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { enqueue, liveTickets, queueDir } from "./queue";
+import { mkdir, rm, utimes } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join, resolve } from "node:path";
+
+describe("lock queue", () => {
+  const lockPath = resolve(".test-queue.lock");
+
+  afterEach(async () => {
+    await rm(queueDir(lockPath), { recursive: true, force: true });
+  });
+
+  it("lists tickets in arrival order", async () => {
+    const first = await enqueue(lockPath);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await enqueue(lockPath);
+
+    expect(await liveTickets(lockPath)).toEqual([first.path, second.path]);
+
+    await first.leave();
+    expect(await liveTickets(lockPath)).toEqual([second.path]);
+    await second.leave();
+  });
+
+  it("drops tickets of dead waiters", async () => {
+    const dead = join(queueDir(lockPath), "000000000000001-999999-deadbeef");
+    await mkdir(`${dead}.lock`, { recursive: true });
+    const old = new Date(Date.now() - 60000);
+    await utimes(`${dead}.lock`, old, old);
+
+    const ticket = await enqueue(lockPath);
+    expect(await liveTickets(lockPath)).toEqual([ticket.path]);
+    expect(existsSync(`${dead}.lock`)).toBe(false);
+    await ticket.leave();
+  });
+});
@@ -0,0 +1,123 @@
+import lockfile from "proper-lockfile";
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { backoff, type SlotRetryOptions } from "./semaphore";
+
+// Fair (FIFO) waiting: every waiter registers a ticket in `<lock>.queue/` and
+// only the waiter at the head of the queue tries to take the lock. Ticket names
+// start with the arrival time, so sorting them gives the queue order. Each
+// ticket is itself a proper-lockfile lock, so the ticket of a waiter that died
+// goes stale quickly and is dropped by whoever looks at the queue next.
+
+/** Tickets not refreshed within this time belong to dead waiters. */
+const TICKET_STALE = 10000;
+
+const TICKET_NAME = /^\d{15}-\d+-[0-9a-f]+$/;
+
+/** Tickets this process has taken so far */
+let ticketCount = 0;
+
+/**
+ * A waiter's place in the queue
+ */
+export interface Ticket {
+  /** Absolute path of the ticket */
+  path: string;
+  /** Leave the queue */
+  leave: () => Promise<void>;
+}
+
+/** Directory holding the tickets of fair waiters. */
+export function queueDir(lockPath: string) {
+  return `${lockPath}.queue`;
+}
+
+/** Join the back of the queue. */
+export async function enqueue(lockPath: string): Promise<Ticket> {
+  const dir = queueDir(lockPath);
+  await mkdir(dir, { recursive: true });
+
+  const name = [
+    String(Date.now()).padStart(15, "0"),
+    process.pid,
+    // Keeps tickets we take within the same millisecond in order
+    (ticketCount++).toString(16).padStart(8, "0") +
+      randomBytes(4).toString("hex"),
+  ].join("-");
+  const path = join(dir, name);
+
+  const release = await lockfile.lock(path, {
+    realpath: false,
+    stale: TICKET_STALE,
+    // A ticket we failed to refresh may be dropped as dead; waitForTurn
+    // notices it is gone, so there is nothing to do here
+    onCompromised: () => {},
+  });
+  return {
+    path,
+    leave: async () => {
+      await release().catch(() => {});
+    },
+  };
+}
+
+/**
+ * Live tickets in queue order. Tickets of dead waiters are removed.
+ */
+export async function liveTickets(lockPath: string) {
+  const dir = queueDir(lockPath);
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const live: string[] = [];
+  for (const name of names.sort()) {
+    const id = name.slice(0, -".lock".length);
+    if (!name.endsWith(".lock") || !TICKET_NAME.test(id)) continue;
+    const ticket = join(dir, id);
+
+    const held = await lockfile
+      .check(ticket, { realpath: false, stale: TICKET_STALE })
+      .catch(() => false);
+    if (held) {
+      live.push(ticket);
+    } else {
+      await rm(`${ticket}.lock`, { recursive: true, force: true });
+    }
+  }
+  return live;
+}
+
+/**
+ * Wait until the ticket is at the head of the queue, retrying with the same
+ * backoff as lock acquisition.
+ *
+ * @param onPosition - Called with the 1-based position and queue length
+ *   whenever they are checked
+ */
+export async function waitForTurn(
+  lockPath: string,
+  ticket: Ticket,
+  opts: SlotRetryOptions,
+  onPosition?: (position: number, length: number) => void,
+) {
+  for (let attempt = 0; ; attempt++) {
+    opts.signal?.throwIfAborted();
+    const tickets = await liveTickets(lockPath);
+    const position = tickets.indexOf(ticket.path);
+    if (position === -1) {
+      throw Object.assign(new Error("Lost our place in the lock queue"), {
+        code: "ECOMPROMISED",
+      });
+    }
+
+    onPosition?.(position + 1, tickets.length);
+    if (position === 0) return;
+
+    await backoff(opts, attempt, tickets[0]!);
+  }
+}
@@ -0,0 +1,74 @@
+import { delimiter } from "node:path";
+import { runId } from "./coalesce";
+import { inspectLock, type InspectOptions } from "./inspect";
+import type { HolderInfo } from "./holder";
+
+// A command run under a lock may itself call mutex-run for the same lock,
+// e.g. a package.json script wrapping another wrapped script. Waiting would
+// deadlock, so mutexRun tells its command which locks it holds, and on whose
+// behalf, through the environment. A nested run skips locks an ancestor holds.
+
+/** Lock paths held by ancestor runs, separated by path.delimiter. */
+export const LOCKS_ENV = "MUTEX_RUN_LOCKS";
+
+/** Holder tokens of ancestor runs, separated by spaces. */
+export const HOLDER_ENV = "MUTEX_RUN_HOLDER";
+
+/** Details of the innermost run, for the command's own use. */
+export const LOCK_ENV = "MUTEX_RUN_LOCK";
+export const WAITED_ENV = "MUTEX_RUN_WAITED_MS";
+export const SLOT_ENV = "MUTEX_RUN_SLOT";
+
+/**
+ * Which of the given locks an ancestor run holds. The environment alone is
+ * not trusted: the lock must still be held by one of the ancestors listed,
+ * since e.g. a daemon started by a run can outlive its lock.
+ *
+ * @param lockPaths - Absolute lock paths
+ */
+export async function inheritedLocks(
+  lockPaths: string[],
+  options: InspectOptions = {},
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  const held = env[LOCKS_ENV]?.split(delimiter) ?? [];
+  const tokens = env[HOLDER_ENV]?.split(" ") ?? [];
+
+  const inherited: string[] = [];
+  for (const lockPath of lockPaths.filter((path) => held.includes(path))) {
+    const { holders } = await inspectLock(lockPath, options);
+    if (holders.some((holder) => tokens.includes(runId(holder)))) {
+      inherited.push(lockPath);
+    }
+  }
+  return inherited;
+}
+
+/**
+ * Environment for a command run while holding locks: the locks and tokens of
+ * all ancestors plus our own, and details of this run.
+ *
+ * @param run.holders - Records of the locks we took ourselves
+ */
+export function lockEnv(
+  run: {
+    lockPaths: string[];
+    holders: HolderInfo[];
+    waitedMs: number;
+    slot: number;
+  },
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, string> {
+  const locks = new Set(env[LOCKS_ENV]?.split(delimiter).filter(Boolean));
+  for (const lockPath of run.lockPaths) locks.add(lockPath);
+  const tokens = new Set(env[HOLDER_ENV]?.split(" ").filter(Boolean));
+  for (const holder of run.holders) tokens.add(runId(holder));
+
+  return {
+    [LOCKS_ENV]: [...locks].join(delimiter),
+    [HOLDER_ENV]: [...tokens].join(" "),
+    [LOCK_ENV]: run.lockPaths[0] ?? "",
+    [WAITED_ENV]: String(run.waitedMs),
+    [SLOT_ENV]: String(run.slot),
+  };
+}
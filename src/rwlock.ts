@@ -0,0 +1,108 @@
+import lockfile from "proper-lockfile";
+import { randomBytes } from "node:crypto";
+import { readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  acquireSlot,
+  backoff,
+  claimSlot,
+  lockedError,
+  type ClaimedSlot,
+  type SlotRetryOptions,
+} from "./semaphore";
+import { removeHolderInfo } from "./holder";
+import { isAbandoned, lockfileOptions, type StaleOptions } from "./stale";
+
+// Shared/exclusive locking on top of the plain lock:
+//
+// - The lock path itself is the "gate". Exclusive holders keep it for the whole
+//   run; shared holders only take it long enough to register themselves.
+// - Every shared holder locks its own entry in `<lock>.readers/`.
+// - An exclusive holder takes the gate first and then waits for the registered
+//   readers to drain. New readers queue up behind the gate meanwhile, so a
+//   steady stream of readers cannot starve a waiting writer.
+
+const READER_ENTRY = /^reader-[\w-]+$/;
+
+/** Directory holding the entries of current shared holders. */
+export function readersDir(lockPath: string) {
+  return `${lockPath}.readers`;
+}
+
+/** Lock targets of all registered shared holders, live or not. */
+export async function readerPaths(lockPath: string) {
+  const dir = readersDir(lockPath);
+  try {
+    const names = await readdir(dir);
+    return names
+      .filter((name) => READER_ENTRY.test(name))
+      .map((name) => join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lock targets of shared holders that currently hold their entry. Entries
+ * whose holder is gone (crashed readers) are removed along the way.
+ */
+export async function liveReaders(lockPath: string, opts: StaleOptions) {
+  const live: string[] = [];
+  for (const entry of await readerPaths(lockPath)) {
+    const held =
+      (await lockfile.check(entry, lockfileOptions(opts)).catch(() => false)) &&
+      !(await isAbandoned(entry, opts));
+    if (held) {
+      live.push(entry);
+    } else {
+      await rm(`${entry}.lock`, { recursive: true, force: true });
+      await rm(entry, { force: true });
+      await removeHolderInfo(entry);
+    }
+  }
+  return live;
+}
+
+/**
+ * Acquire the lock in shared mode: pass through the gate, register a reader
+ * entry and let the gate go again.
+ *
+ * @param claimEntry - Claims the (new, unique) reader entry, e.g. through
+ *   the lock backend
+ */
+export async function acquireShared<T extends ClaimedSlot>(
+  lockPath: string,
+  opts: SlotRetryOptions,
+  claimEntry: (entry: string) => Promise<T | undefined>,
+): Promise<T> {
+  const gate = await acquireSlot([lockPath], opts, (paths) =>
+    claimSlot(paths, opts),
+  );
+  try {
+    const id = `reader-${process.pid}-${randomBytes(4).toString("hex")}`;
+    const entry = join(readersDir(lockPath), id);
+    const claimed = await claimEntry(entry);
+    if (!claimed) throw lockedError(entry);
+    if (opts.signal?.aborted) {
+      await claimed.release();
+      opts.signal.throwIfAborted();
+    }
+    return claimed;
+  } finally {
+    await gate.release();
+  }
+}
+
+/**
+ * Wait (while holding the gate) until no shared holders are left, retrying
+ * with the same backoff as lock acquisition.
+ */
+export async function waitForReaders(lockPath: string, opts: SlotRetryOptions) {
+  for (let attempt = 0; ; attempt++) {
+    opts.signal?.throwIfAborted();
+    const live = await liveReaders(lockPath, opts);
+    if (live.length === 0) return;
+
+    await backoff(opts, attempt, live[0]!);
+  }
+}
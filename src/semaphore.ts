@@ -0,0 +1,161 @@
+import lockfile from "proper-lockfile";
+import { sleep } from "./utils";
+import { breakIfAbandoned, lockfileOptions, type StaleCheck } from "./stale";
+import type { LockWatcher } from "./wakeup";
+
+/**
+ * A claimed semaphore slot
+ */
+export interface ClaimedSlot {
+  /** Index of the slot (0 ..< concurrency) */
+  slot: number;
+  /** Absolute path of the slot's lock target */
+  path: string;
+  /** Release the slot's lock */
+  release: () => Promise<void>;
+}
+
+/** Retry settings for waiting on a free slot */
+export interface SlotRetryOptions {
+  staleTimeout: number;
+  staleCheck?: StaleCheck;
+  /** Time (as Date.now()) after which to give up; Infinity waits forever */
+  deadline: number;
+  retryInterval: number;
+  maxRetryInterval: number;
+  factor: number;
+  /** Stops waiting (and gives back anything claimed meanwhile) when aborted */
+  signal?: AbortSignal;
+  /** Cuts the wait between retries short when the lock changes */
+  watcher?: LockWatcher;
+}
+
+/**
+ * Lock targets backing an N-slot semaphore. Slot 0 is the lock path itself,
+ * so a plain one-at-a-time lock and slot 0 of a semaphore exclude each other.
+ */
+export function slotPaths(lockPath: string, concurrency: number) {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(
+      `concurrency must be a positive integer (got ${concurrency})`,
+    );
+  }
+  return Array.from({ length: concurrency }, (_, i) =>
+    i === 0 ? lockPath : `${lockPath}.${i}`,
+  );
+}
+
+/** Settings for claiming a slot */
+export type ClaimOptions = Pick<
+  SlotRetryOptions,
+  "staleTimeout" | "staleCheck"
+> & {
+  /**
+   * Called when proper-lockfile finds that the claimed slot was lost (it
+   * could not refresh it in time). Without it, proper-lockfile throws.
+   */
+  onCompromised?: (err: Error) => void;
+};
+
+/**
+ * Try every slot once and claim the first free one (stale slots are taken
+ * over just like a stale single lock).
+ *
+ * @returns The claimed slot, or undefined if all slots are held
+ */
+export async function claimSlot(
+  paths: string[],
+  opts: ClaimOptions,
+): Promise<ClaimedSlot | undefined> {
+  for (const [slot, path] of paths.entries()) {
+    const claimed = await tryLock(path, opts);
+    if (claimed) return { slot, path, release: claimed };
+
+    // proper-lockfile only takes over locks by age; with the pid check we
+    // break locks of dead holders ourselves and try once more
+    if (opts.staleCheck === "pid" && (await breakIfAbandoned(path, opts))) {
+      const release = await tryLock(path, opts);
+      if (release) return { slot, path, release };
+    }
+  }
+  return undefined;
+}
+
+async function tryLock(path: string, opts: ClaimOptions) {
+  try {
+    return await lockfile.lock(path, {
+      ...lockfileOptions(opts),
+      ...(opts.onCompromised && { onCompromised: opts.onCompromised }),
+    });
+  } catch (err: any) {
+    if (err?.code !== "ELOCKED") throw err;
+    return undefined;
+  }
+}
+
+/**
+ * Claim a free slot, retrying with exponential backoff while all are held.
+ * Rejects with an ELOCKED error once the deadline has passed, or with the
+ * signal's reason once it aborts.
+ *
+ * @param claim - Tries every slot once, e.g. claimSlot
+ */
+export async function acquireSlot<T extends ClaimedSlot>(
+  paths: string[],
+  opts: SlotRetryOptions,
+  claim: (paths: string[]) => Promise<T | undefined>,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    opts.signal?.throwIfAborted();
+    const claimed = await claim(paths);
+    if (claimed) {
+      // Aborted while the claim was in flight: don't keep what nobody wants
+      if (opts.signal?.aborted) {
+        await claimed.release();
+        opts.signal.throwIfAborted();
+      }
+      return claimed;
+    }
+
+    await backoff(opts, attempt, paths[0]!);
+  }
+}
+
+/**
+ * Wait before the next retry (0-based attempt), or reject with an ELOCKED
+ * error for `file` once the deadline has passed. The last retry happens right
+ * at the deadline.
+ */
+export async function backoff(
+  opts: SlotRetryOptions,
+  attempt: number,
+  file: string,
+) {
+  const remaining = opts.deadline - Date.now();
+  if (remaining <= 0) {
+    throw lockedError(file);
+  }
+
+  const delay = Math.min(retryDelay(opts, attempt), remaining);
+  if (opts.watcher) {
+    await opts.watcher.sleep(delay, opts.signal);
+  } else {
+    await sleep(delay, opts.signal);
+  }
+}
+
+/** Backoff delay before the given retry attempt (0-based). */
+export function retryDelay(opts: SlotRetryOptions, attempt: number) {
+  return Math.min(
+    opts.retryInterval * opts.factor ** attempt,
+    opts.maxRetryInterval,
+  );
+}
+
+/** The error proper-lockfile raises for a held lock, for callers to match on. */
+export function lockedError(file: string) {
+  return Object.assign(new Error("Lock file is already being held"), {
+    code: "ELOCKED",
+    file,
+  });
+}
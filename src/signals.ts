@@ -0,0 +1,69 @@
+import { constants } from "node:os";
+
+/** Signals that interrupt a run: they cancel waiting and reach the command. */
+export const FORWARDED_SIGNALS: NodeJS.Signals[] =
+  process.platform === "win32"
+    ? ["SIGINT", "SIGTERM", "SIGHUP"]
+    : ["SIGINT", "SIGTERM", "SIGHUP", "SIGQUIT"];
+
+/**
+ * Thrown by mutexRun when a signal arrives before the command started
+ */
+export class InterruptedError extends Error {
+  override name = "InterruptedError";
+
+  constructor(
+    /** The signal that was received */
+    readonly signal: NodeJS.Signals,
+  ) {
+    super(`Interrupted by ${signal}`);
+  }
+}
+
+/** Exit code a shell reports for a process terminated by a signal (128 + N). */
+export function exitCodeForSignal(signal: NodeJS.Signals) {
+  return 128 + (constants.signals[signal] ?? 0);
+}
+
+/**
+ * Signals trapped by trapSignals
+ */
+export interface SignalTrap {
+  /** Aborted with an InterruptedError by a signal before forwardTo */
+  signal: AbortSignal;
+
+  /** Hand every further signal to fn, e.g. to kill the command with it */
+  forwardTo(fn: (signal: NodeJS.Signals) => void): void;
+
+  /** Stop listening for signals */
+  dispose(): void;
+}
+
+/**
+ * Listen for FORWARDED_SIGNALS until dispose is called. Until a command is
+ * registered with forwardTo, a signal aborts `signal` with an
+ * InterruptedError; afterwards signals are handed to the command.
+ */
+export function trapSignals(): SignalTrap {
+  const controller = new AbortController();
+  let forward: ((signal: NodeJS.Signals) => void) | undefined;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (forward) {
+      forward(signal);
+    } else {
+      controller.abort(new InterruptedError(signal));
+    }
+  };
+  for (const signal of FORWARDED_SIGNALS) process.on(signal, onSignal);
+
+  return {
+    signal: controller.signal,
+    forwardTo(fn: (signal: NodeJS.Signals) => void) {
+      forward = fn;
+    },
+    dispose() {
+      for (const signal of FORWARDED_SIGNALS) process.off(signal, onSignal);
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { breakIfAbandoned, isHolderAlive } from "./stale";
+import { acquire, LockAcquisitionError } from "./lock";
+import { createHolderInfo, readHolderInfo, writeHolderInfo } from "./holder";
+import { execa } from "execa";
+import { mkdir, readdir, rm, utimes } from "node:fs/promises";
+
+async function deadPid() {
+  const child = execa("node", ["-e", "0"]);
+  await child;
+  return child.pid!;
+}
+
+describe("isHolderAlive", () => {
+  it("recognizes the current process", async () => {
+    expect(await isHolderAlive(await createHolderInfo(["x"]))).toBe(true);
+  });
+
+  it("recognizes a process that exited", async () => {
+    const holder = { ...(await createHolderInfo(["x"])), pid: await deadPid() };
+    expect(await isHolderAlive(holder)).toBe(false);
+  });
+
+  it("detects a reused pid by its start time", async () => {
+    const holder = {
+      ...(await createHolderInfo(["x"])),
+      pidStartTime: "not-the-real-start-time",
+    };
+    expect(await isHolderAlive(holder)).toBe(false);
+  });
+
+  it("cannot check holders on other hosts", async () => {
+    const holder = {
+      ...(await createHolderInfo(["x"])),
+      hostname: "some-other-host",
+    };
+    expect(await isHolderAlive(holder)).toBeUndefined();
+  });
+});
+
+describe("staleCheck", () => {
+  const dir = "/tmp/mutex-run-test-stale";
+  const lockFile = `${dir}/build.lock`;
+
+  beforeEach(async () => {
+    await mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /** Leave a lock behind as if it was held by the given process. */
+  async function leaveLock(pid: number, ageMs = 0) {
+    await mkdir(`${lockFile}.lock`);
+    const time = new Date(Date.now() - ageMs);
+    await utimes(`${lockFile}.lock`, time, time);
+    await writeHolderInfo(lockFile, {
+      ...(await createHolderInfo(["pnpm", "build"])),
+      pid,
+    });
+  }
+
+  it("takes over the lock of a dead holder right away with pid", async () => {
+    await leaveLock(await deadPid());
+
+    await expect(acquire(lockFile, { wait: false })).rejects.toThrow(
+      LockAcquisitionError,
+    );
+    const lock = await acquire(lockFile, { wait: false, staleCheck: "pid" });
+    expect(lock.holder.pid).toBe(process.pid);
+    await lock.release();
+  });
+
+  it("keeps the lock of a live holder however old it is with pid", async () => {
+    await leaveLock(process.pid, 60000);
+
+    await expect(
+      acquire(lockFile, {
+        wait: false,
+        staleTimeout: 5000,
+        staleCheck: "pid",
+      }),
+    ).rejects.toThrow(LockAcquisitionError);
+
+    // By age alone the same lock counts as stale
+    const lock = await acquire(lockFile, { wait: false, staleTimeout: 5000 });
+    await lock.release();
+  });
+
+  it("lets only one of several breakers remove a dead lock", async () => {
+    await leaveLock(await deadPid());
+
+    const opts = { staleTimeout: 600000, staleCheck: "pid" } as const;
+    const broken = await Promise.all([
+      breakIfAbandoned(lockFile, opts),
+      breakIfAbandoned(lockFile, opts),
+      breakIfAbandoned(lockFile, opts),
+    ]);
+    expect(broken.filter(Boolean)).toHaveLength(1);
+    expect(await readHolderInfo(lockFile)).toBeUndefined();
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it("falls back to age for holders on other hosts", async () => {
+    await leaveLock(process.pid, 60000);
+    await writeHolderInfo(lockFile, {
+      ...(await createHolderInfo(["pnpm", "build"])),
+      hostname: "some-other-host",
+    });
+
+    const lock = await acquire(lockFile, {
+      wait: false,
+      staleTimeout: 5000,
+      staleCheck: "pid",
+    });
+    await lock.release();
+  });
+});
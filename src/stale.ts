@@ -0,0 +1,112 @@
+import { randomBytes } from "node:crypto";
+import { existsSync } from "node:fs";
+import { hostname } from "node:os";
+import { rename, rm, stat } from "node:fs/promises";
+import { readHolderInfo, removeHolderInfo, type HolderInfo } from "./holder";
+import { runId } from "./coalesce";
+import { isProcessAlive, processStartTime } from "./utils";
+
+/**
+ * How to tell that the holder of a lock is gone:
+ *
+ * - "age": the lock was not refreshed for longer than the stale timeout
+ * - "pid": the process in the holder record no longer runs. Locks held from
+ *   another host, or whose holder left no record, fall back to "age".
+ */
+export type StaleCheck = "age" | "pid";
+
+/** Settings that decide when a lock counts as abandoned */
+export interface StaleOptions {
+  staleTimeout: number;
+  staleCheck?: StaleCheck;
+}
+
+// With the pid check, proper-lockfile must never take a lock over by age on
+// its own; we do that ourselves for holders we cannot check
+const NEVER_STALE = Number.MAX_SAFE_INTEGER;
+
+/**
+ * proper-lockfile options for locking and checking. The lock is refreshed
+ * every staleTimeout / 2 either way, so "age" waiters elsewhere see it alive.
+ */
+export function lockfileOptions(opts: StaleOptions) {
+  // realpath: false allows locking a path we just created
+  return opts.staleCheck === "pid"
+    ? {
+        realpath: false,
+        stale: NEVER_STALE,
+        update: Math.max(opts.staleTimeout, 2000) / 2,
+      }
+    : { realpath: false, stale: opts.staleTimeout };
+}
+
+/**
+ * Whether the holder process of a record is still running
+ *
+ * @returns undefined when that cannot be checked from this host
+ */
+export async function isHolderAlive(holder: HolderInfo) {
+  if (holder.hostname !== hostname()) return undefined;
+  if (!isProcessAlive(holder.pid)) return false;
+  if (!holder.pidStartTime) return true;
+
+  // A different start time means the pid was reused by another process
+  const startTime = await processStartTime(holder.pid);
+  return startTime === undefined || startTime === holder.pidStartTime;
+}
+
+/**
+ * Whether a lock target is locked by a holder that is gone. Targets that are
+ * not locked at all are not abandoned.
+ */
+export async function isAbandoned(path: string, opts: StaleOptions) {
+  const lockStat = await stat(`${path}.lock`).catch(() => undefined);
+  if (!lockStat) return false;
+
+  if (opts.staleCheck === "pid") {
+    const holder = await readHolderInfo(path);
+    const alive = holder ? await isHolderAlive(holder) : undefined;
+    if (alive !== undefined) return !alive;
+  }
+  return lockStat.mtimeMs < Date.now() - opts.staleTimeout;
+}
+
+/**
+ * Remove the lock of a holder that is gone, so the target can be claimed
+ * again. Only needed for the pid check; proper-lockfile handles "age" itself.
+ *
+ * @returns Whether a lock was removed
+ */
+export async function breakIfAbandoned(path: string, opts: StaleOptions) {
+  const before = await stat(`${path}.lock`).catch(() => undefined);
+  if (!before || !(await isAbandoned(path, opts))) return false;
+  const dead = await readHolderInfo(path);
+
+  // Move the lock out of the way first: the rename is atomic, so of several
+  // processes breaking the same lock only one gets it
+  const tombstone = `${path}.lock.${process.pid}-${randomBytes(4).toString("hex")}.broken`;
+  try {
+    await rename(`${path}.lock`, tombstone);
+  } catch {
+    return false;
+  }
+
+  // What we moved may be a lock somebody broke and re-acquired since we
+  // looked (a new directory can even reuse the inode): give it back
+  const moved = await stat(tombstone).catch(() => undefined);
+  if (moved?.ino !== before.ino || moved.mtimeMs !== before.mtimeMs) {
+    if (!existsSync(`${path}.lock`)) {
+      await rename(tombstone, `${path}.lock`).catch(() => {});
+    }
+    return false;
+  }
+
+  // Whoever claims the target next must never be judged by the dead
+  // holder's record, but may have written their own already
+  const record = await readHolderInfo(path);
+  if (record && dead && runId(record) === runId(dead)) {
+    await removeHolderInfo(path);
+  }
+  await rm(tombstone, { recursive: true, force: true });
+  return true;
+}
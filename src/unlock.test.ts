@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { forceRelease, LockInUseError } from "./unlock";
+import { acquire } from "./lock";
+import { createHolderInfo, writeHolderInfo } from "./holder";
+import { execa } from "execa";
+import { mkdir, rm } from "node:fs/promises";
+import { existsSync } from "node:fs";
+
+describe("forceRelease", () => {
+  const dir = "/tmp/mutex-run-test-unlock";
+  const lockFile = `${dir}/build.lock`;
+
+  beforeEach(async () => {
+    await mkdir(dir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /** Leave a lock behind as if its holder had crashed. */
+  async function abandonLock(pid: number, host?: string) {
+    await mkdir(`${lockFile}.lock`);
+    await writeHolderInfo(lockFile, {
+      ...(await createHolderInfo(["pnpm", "build"])),
+      pid,
+      ...(host ? { hostname: host } : {}),
+    });
+  }
+
+  async function deadPid() {
+    const child = execa("node", ["-e", "0"]);
+    await child;
+    return child.pid!;
+  }
+
+  it("does nothing when the lock is free", async () => {
+    const result = await forceRelease(lockFile);
+    expect(result.removed).toEqual([]);
+  });
+
+  it("breaks a lock whose holder is gone", async () => {
+    await abandonLock(await deadPid());
+
+    const result = await forceRelease(lockFile);
+    expect(result.holders[0]?.command).toEqual(["pnpm", "build"]);
+    expect(result.removed).toContain(`${lockFile}.lock`);
+    expect(result.removed).toContain(`${lockFile}.holder.json`);
+    expect(existsSync(`${lockFile}.lock`)).toBe(false);
+
+    // The lock can be taken again right away
+    const lock = await acquire(lockFile, { wait: false });
+    await lock.release();
+  });
+
+  it("refuses to break a lock whose holder is running", async () => {
+    const lock = await acquire(lockFile);
+    try {
+      await expect(forceRelease(lockFile)).rejects.toThrow(LockInUseError);
+      expect(existsSync(`${lockFile}.lock`)).toBe(true);
+    } finally {
+      await lock.release();
+    }
+  });
+
+  it("refuses to break a lock held from another host", async () => {
+    await abandonLock(await deadPid(), "some-other-host");
+    const err = await forceRelease(lockFile).catch((e) => e);
+    expect(err).toBeInstanceOf(LockInUseError);
+    expect(err.reason).toContain("cannot check");
+  });
+
+  it("breaks any lock with force", async () => {
+    await abandonLock(process.pid);
+    const result = await forceRelease(lockFile, { force: true });
+    expect(result.removed).toContain(`${lockFile}.lock`);
+  });
+});
@@ -0,0 +1,146 @@
+import { rm, stat } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+  formatHolder,
+  holderPath,
+  readHolderInfo,
+  type HolderInfo,
+} from "./holder";
+import { existingSlots } from "./inspect";
+import { readerPaths, readersDir } from "./rwlock";
+import { isHolderAlive } from "./stale";
+import { parseDuration, type Duration } from "./utils";
+
+/**
+ * Options for forceRelease
+ */
+export interface ForceReleaseOptions {
+  /**
+   * Break the lock even if its holder may still be running
+   * @default false
+   */
+  force?: boolean;
+
+  /**
+   * Consider locks older than this stale (stale locks are always safe to
+   * break); milliseconds or a duration such as "10m"
+   * @default 600000 (10 minutes)
+   */
+  staleTimeout?: Duration;
+}
+
+/**
+ * What forceRelease removed
+ */
+export interface ForceReleaseResult {
+  /**
+   * Absolute path of the lock file
+   */
+  lockPath: string;
+
+  /**
+   * Holders whose locks were broken (only those that wrote a record)
+   */
+  holders: HolderInfo[];
+
+  /**
+   * Paths that were removed
+   */
+  removed: string[];
+}
+
+/**
+ * Thrown by forceRelease when a holder may still be running
+ */
+export class LockInUseError extends Error {
+  override name = "LockInUseError";
+
+  constructor(
+    /** Absolute path of the lock file */
+    readonly lockPath: string,
+    /** Why breaking the lock is unsafe */
+    readonly reason: string,
+    /** Record of the holder in question, if it wrote one */
+    readonly holder?: HolderInfo,
+  ) {
+    super(`Refusing to break lock at: ${lockPath} (${reason})`);
+  }
+}
+
+/**
+ * Break a lock left behind by a holder that is gone
+ *
+ * Refuses (with a LockInUseError) when a holder that has not gone stale is
+ * still running on this host, or runs on another host or left no record so
+ * that it cannot be checked. Pass `force` to break the lock anyway.
+ *
+ * @param lockFile - Lock file path (relative or absolute)
+ * @param options - Configuration options
+ * @returns What was removed; nothing when the lock was not held
+ */
+export async function forceRelease(
+  lockFile: string = ".mutex-run.lock",
+  options: ForceReleaseOptions = {},
+): Promise<ForceReleaseResult> {
+  const staleTimeout = parseDuration(options.staleTimeout ?? 600000); // 10 minutes
+  const lockPath = resolve(lockFile);
+
+  // Everything that may be locked: semaphore slots and shared holders
+  const targets: { path: string; holder?: HolderInfo }[] = [];
+  for (const path of [
+    ...(await existingSlots(lockPath)),
+    ...(await readerPaths(lockPath)),
+  ]) {
+    const lockStat = await stat(`${path}.lock`).catch(() => undefined);
+    if (!lockStat) continue;
+
+    const holder = await readHolderInfo(path);
+    const isStale = lockStat.mtimeMs < Date.now() - staleTimeout;
+    if (!options.force && !isStale) {
+      const reason = await unsafeReason(holder);
+      if (reason) throw new LockInUseError(lockPath, reason, holder);
+    }
+    targets.push({ path, holder });
+  }
+
+  const removed: string[] = [];
+  const remove = async (path: string, options = {}) => {
+    const exists = await stat(path).then(
+      () => true,
+      () => false,
+    );
+    await rm(path, { force: true, ...options });
+    if (exists) removed.push(path);
+  };
+
+  for (const { path } of targets) {
+    await remove(`${path}.lock`, { recursive: true });
+    await remove(holderPath(path));
+    await remove(path);
+  }
+  // Drop the readers directory once no shared holder is left in it
+  if (targets.length > 0 && (await readerPaths(lockPath)).length === 0) {
+    await remove(readersDir(lockPath), { recursive: true });
+  }
+
+  return {
+    lockPath,
+    holders: targets.flatMap(({ holder }) => (holder ? [holder] : [])),
+    removed,
+  };
+}
+
+/** Why breaking a holder's lock is unsafe, or undefined if it is safe. */
+async function unsafeReason(holder: HolderInfo | undefined) {
+  if (!holder) {
+    return "the holder left no record, so it cannot be checked";
+  }
+  const alive = await isHolderAlive(holder);
+  if (alive === undefined) {
+    return `cannot check from this host whether ${formatHolder(holder)} is still running`;
+  }
+  if (alive) {
+    return `${formatHolder(holder)} is still running`;
+  }
+  return undefined;
+}
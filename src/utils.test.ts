@@ -1,5 +1,12 @@
 import { describe, it, expect, afterEach } from "vitest";
-import { splitAtDoubleDash, ensureFile } from "./utils";
+import {
+  splitAtDoubleDash,
+  ensureFile,
+  formatDuration,
+  MAX_DURATION,
+  parseDuration,
+  processStartTime,
+} from "./utils";
 import { existsSync } from "node:fs";
 import { unlink, rm } from "node:fs/promises";
 import { dirname } from "node:path";
@@ -97,3 +104,79 @@ describe("ensureFile", () => {
     expect(existsSync(dirname(testFileNested))).toBe(true);
   });
 });
+
+describe("formatDuration", () => {
+  it("formats sub-second durations in milliseconds", () => {
+    expect(formatDuration(850)).toBe("850ms");
+  });
+
+  it("formats seconds, minutes and hours", () => {
+    expect(formatDuration(42_000)).toBe("42s");
+    expect(formatDuration(3 * 60_000 + 5_000)).toBe("3m");
+    expect(formatDuration(3_600_000)).toBe("1h");
+    expect(formatDuration(3_900_000)).toBe("1h 5m");
+  });
+
+  it("clamps invalid durations to zero", () => {
+    expect(formatDuration(-5)).toBe("0ms");
+    expect(formatDuration(NaN)).toBe("0ms");
+  });
+});
+
+describe("parseDuration", () => {
+  it("passes milliseconds through", () => {
+    expect(parseDuration(1500)).toBe(1500);
+    expect(parseDuration("1500")).toBe(1500);
+    expect(parseDuration(0)).toBe(0);
+  });
+
+  it("parses units", () => {
+    expect(parseDuration("500ms")).toBe(500);
+    expect(parseDuration("30s")).toBe(30_000);
+    expect(parseDuration("5m")).toBe(300_000);
+    expect(parseDuration("1h")).toBe(3_600_000);
+    expect(parseDuration("2d")).toBe(172_800_000);
+    expect(parseDuration("1.5s")).toBe(1500);
+  });
+
+  it("adds up combined units", () => {
+    expect(parseDuration("1h 30m")).toBe(5_400_000);
+    expect(parseDuration("1m30s")).toBe(90_000);
+  });
+
+  it("rejects invalid durations", () => {
+    for (const value of ["", "abc", "5x", "-1", "1.5", "m", "5 minutes"]) {
+      expect(() => parseDuration(value)).toThrow(/Invalid duration/);
+    }
+    expect(() => parseDuration(-1)).toThrow(/Invalid duration/);
+    expect(() => parseDuration(NaN)).toThrow(/Invalid duration/);
+  });
+
+  it("accepts infinity only when allowed", () => {
+    expect(parseDuration("infinity", { allowInfinity: true })).toBe(Infinity);
+    expect(parseDuration("forever", { allowInfinity: true })).toBe(Infinity);
+    expect(parseDuration(Infinity, { allowInfinity: true })).toBe(Infinity);
+    expect(parseDuration("5m", { allowInfinity: true })).toBe(300_000);
+    expect(() => parseDuration("infinity")).toThrow(/Invalid duration/);
+    expect(() => parseDuration(Infinity)).toThrow(/Invalid duration/);
+  });
+
+  it("rejects durations too long for a timer unless unbounded", () => {
+    expect(parseDuration("24d")).toBe(2_073_600_000);
+    expect(parseDuration(MAX_DURATION)).toBe(MAX_DURATION);
+    expect(() => parseDuration("30d")).toThrow(/Duration too long/);
+    expect(() => parseDuration(MAX_DURATION + 1)).toThrow(/too long/);
+    expect(() => parseDuration("30d", { allowInfinity: true })).toThrow(
+      /"infinity"/,
+    );
+    expect(parseDuration("30d", { unbounded: true })).toBe(2_592_000_000);
+  });
+});
+
+describe("processStartTime", () => {
+  it("is stable for a running process", async () => {
+    const startTime = await processStartTime(process.pid);
+    expect(startTime).toBeTruthy();
+    expect(await processStartTime(process.pid)).toBe(startTime);
+  });
+});
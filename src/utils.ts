@@ -1,5 +1,6 @@
 import { existsSync, promises as fs } from "node:fs";
 import { dirname } from "node:path";
+import { execa } from "execa";
 
 export function splitAtDoubleDash(argv: string[]) {
   const idx = argv.indexOf("--");
@@ -16,3 +17,182 @@ export async function ensureFile(p: string) {
     await h.close();
   }
 }
+
+/** Format a millisecond duration compactly, e.g. "850ms", "42s", "3m", "1h 5m". */
+export function formatDuration(ms: number) {
+  if (!Number.isFinite(ms) || ms < 0) ms = 0;
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * A length of time: milliseconds, or a string such as "500ms", "30s", "5m",
+ * "1h", "2d" or "1h 30m" (a plain number string means milliseconds)
+ */
+export type Duration = number | string;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+const DURATION_PART = /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)/g;
+
+/**
+ * Longest duration that can be waited for: timers fire right away when given
+ * more than 2^31 - 1 milliseconds (about 24.8 days)
+ */
+export const MAX_DURATION = 2 ** 31 - 1;
+
+/** Usage hint for duration values, for error messages. */
+export const DURATION_USAGE =
+  "Durations are milliseconds or a number with a unit: 500ms, 30s, 5m, 1h, 2d (or combined, e.g. 1h 30m); waits and timeouts can be at most 24d";
+
+/**
+ * Parse a duration into milliseconds
+ *
+ * @param options.allowInfinity - Also accept Infinity, "infinity" and
+ *   "forever", for limits that can be turned off
+ * @param options.unbounded - Also accept durations above MAX_DURATION, for
+ *   values that are compared against rather than waited for
+ * @throws Error if the value is not a non-negative duration, or too long
+ */
+export function parseDuration(
+  value: Duration,
+  options: { allowInfinity?: boolean; unbounded?: boolean } = {},
+) {
+  const ms = parseMilliseconds(value, options.allowInfinity);
+  if (ms === undefined) {
+    throw new Error(
+      `Invalid duration: ${JSON.stringify(value)}. ${DURATION_USAGE}`,
+    );
+  }
+  if (ms > MAX_DURATION && ms !== Infinity && !options.unbounded) {
+    throw new Error(
+      `Duration too long: ${JSON.stringify(value)}. Waits and timeouts can be at most ${MAX_DURATION}ms (about 24.8 days)${options.allowInfinity ? '; use "infinity" to wait forever' : ""}`,
+    );
+  }
+  return ms;
+}
+
+function parseMilliseconds(value: Duration, allowInfinity = false) {
+  if (typeof value === "number") {
+    if (value >= 0 && (Number.isFinite(value) || allowInfinity)) {
+      return value;
+    }
+  } else if (allowInfinity && /^\s*(infinity|forever)\s*$/i.test(value)) {
+    return Infinity;
+  } else if (/^\s*\d+\s*$/.test(value)) {
+    return Number(value);
+  } else if (/^\s*(\d+(\.\d+)?\s*(ms|s|m|h|d)\s*)+$/.test(value)) {
+    let ms = 0;
+    for (const [, amount, unit] of value.matchAll(DURATION_PART)) {
+      ms += Number(amount) * DURATION_UNITS[unit!]!;
+    }
+    return Math.round(ms);
+  }
+  return undefined;
+}
+
+/** Sleep for the given time, rejecting with the signal's reason if it aborts first. */
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Whether a process with this pid exists on this machine. */
+export function isProcessAlive(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    // EPERM: it exists, we just may not signal it
+    return err?.code === "EPERM";
+  }
+}
+
+/**
+ * Parent pid and command line of a process
+ *
+ * @returns undefined if the process does not exist or the platform offers no
+ * way to tell
+ */
+export async function processInfo(pid: number) {
+  try {
+    if (process.platform === "linux") {
+      // The parent pid is field 4 of /proc/<pid>/stat, right after the command
+      // name
+      const [stat, cmdline] = await Promise.all([
+        fs.readFile(`/proc/${pid}/stat`, "utf8"),
+        fs.readFile(`/proc/${pid}/cmdline`, "utf8"),
+      ]);
+      const argv = cmdline.split("\0").filter(Boolean);
+      return {
+        ppid: Number(stat.slice(stat.lastIndexOf(")") + 2).split(" ")[1]),
+        // A process that set its title (e.g. "npm exec ...") has it as one
+        // string
+        argv: argv.length === 1 ? argv[0]!.split(" ") : argv,
+      };
+    }
+    if (process.platform !== "win32") {
+      const { stdout } = await execa("ps", [
+        "-o",
+        "ppid=",
+        "-o",
+        "args=",
+        "-p",
+        `${pid}`,
+      ]);
+      const [, ppid, args] = stdout.trim().match(/^(\d+)\s+(.*)$/) ?? [];
+      if (ppid) return { ppid: Number(ppid), argv: args!.split(" ") };
+    }
+  } catch {
+    // No such process
+  }
+  return undefined;
+}
+
+/**
+ * When a process started, as an opaque token that only needs to compare equal
+ * for the same process. Tells a process apart from a later one that reuses
+ * its pid.
+ *
+ * @returns undefined if the process does not exist or the platform offers no
+ * way to tell
+ */
+export async function processStartTime(pid: number) {
+  try {
+    if (process.platform === "linux") {
+      // Field 22 of /proc/<pid>/stat (clock ticks since boot); counted from the
+      // end of the command name, which may itself contain spaces
+      const stat = await fs.readFile(`/proc/${pid}/stat`, "utf8");
+      return stat.slice(stat.lastIndexOf(")") + 2).split(" ")[19];
+    }
+    if (process.platform !== "win32") {
+      const { stdout } = await execa("ps", ["-o", "lstart=", "-p", `${pid}`]);
+      return stdout.trim() || undefined;
+    }
+  } catch {
+    // No such process
+  }
+  return undefined;
+}
@@ -0,0 +1,98 @@
+import { watch, type FSWatcher } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { queueDir } from "./queue";
+import { readersDir } from "./rwlock";
+import { sleep } from "./utils";
+
+// Waiters poll with backoff, which can leave a lock idle for seconds after it
+// is released. Watching the lock's directory lets them retry right away
+// instead. Watching is best-effort: where fs.watch is unavailable (or misses
+// events, as on some network filesystems) waiters still poll.
+
+/**
+ * Watches a lock for changes while waiting for it
+ */
+export interface LockWatcher {
+  /**
+   * Sleep for up to `ms`, returning early when the lock changed since the
+   * last call. Rejects with the signal's reason if it aborts first.
+   */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+
+  /** Stop watching. */
+  close(): void;
+}
+
+/**
+ * Watch everything waiting on a lock can depend on: the lock target and its
+ * slots, the fair queue and the shared holders' entries.
+ */
+export function watchLock(lockPath: string): LockWatcher {
+  const dir = dirname(lockPath);
+  const prefix = basename(lockPath);
+  const subDirs = [queueDir(lockPath), readersDir(lockPath)];
+  const watchers = new Map<string, FSWatcher>();
+
+  // Set by changes that happen while nobody sleeps (e.g. mid-attempt), so the
+  // next sleep does not miss them
+  let pending = false;
+  let wake: (() => void) | undefined;
+  const notify = () => {
+    pending = true;
+    wake?.();
+  };
+
+  const watchDir = (path: string, filter?: (file: string) => boolean) => {
+    if (watchers.has(path)) return;
+    try {
+      const watcher = watch(path, { persistent: false }, (_event, file) => {
+        // Without a file name, any change may be ours
+        if (!file || !filter || filter(file.toString())) notify();
+      });
+      watcher.on("error", () => {
+        watcher.close();
+        watchers.delete(path);
+      });
+      watchers.set(path, watcher);
+    } catch {
+      // Missing directory or no fs.watch here; polling covers it
+    }
+  };
+
+  watchDir(dir, (file) => {
+    if (!file.startsWith(prefix)) return false;
+    // The queue and readers directories may only appear while we wait
+    const path = join(dir, file);
+    if (subDirs.includes(path)) watchDir(path);
+    return true;
+  });
+  for (const path of subDirs) watchDir(path);
+
+  return {
+    async sleep(ms, signal) {
+      signal?.throwIfAborted();
+      if (pending) {
+        pending = false;
+        return;
+      }
+
+      const woken = new AbortController();
+      wake = () => woken.abort();
+      try {
+        await sleep(
+          ms,
+          signal ? AbortSignal.any([signal, woken.signal]) : woken.signal,
+        );
+      } catch (err) {
+        if (signal?.aborted || !woken.signal.aborted) throw err;
+      } finally {
+        wake = undefined;
+        pending = false;
+      }
+    },
+    close() {
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}